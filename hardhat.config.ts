@@ -8,6 +8,11 @@ import 'solidity-coverage';
 import 'hardhat-gas-reporter';
 import "@nomiclabs/hardhat-etherscan";
 
+import './tasks/custody';
+import './tasks/indexer';
+import './tasks/roles';
+import './tasks/verification';
+
 dotenv.config();
 
 // This is a sample Hardhat task. To learn how to create your own go to
@@ -0,0 +1,501 @@
+import {
+  BigNumber,
+  BigNumberish,
+  constants,
+  Contract,
+  Event,
+  providers,
+  utils,
+} from "ethers";
+import {
+  ICvxLocker__factory,
+  PirexCvx,
+  PxCvx,
+  PxCvx__factory,
+} from "../../typechain-types";
+import { EPOCH_DURATION, getRewardToken } from "../pirex/constants";
+import {
+  CustodyIssue,
+  CustodyReport,
+  UnlockTimeReconciliation,
+} from "../types";
+
+const ERC20_ABI = [
+  "function balanceOf(address account) view returns (uint256)",
+];
+const ERC1155_ABI = [
+  "function balanceOfBatch(address[] owners, uint256[] ids) view returns (uint256[])",
+  "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 amount)",
+  "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] amounts)",
+];
+
+export interface TokenIdLedger {
+  minted: BigNumber;
+  burned: BigNumber;
+  // Non-zero balances by account
+  balances: { [account: string]: BigNumber };
+}
+
+export interface CustodyReconciliationOptions {
+  // Must be at or before the contracts' deployment for the event replays to be complete
+  fromBlock?: number;
+  // Latest by default
+  blockNumber?: number;
+  // Drift (in wei) tolerated either way, e.g. for snapshot reward rounding dust
+  tolerance?: BigNumberish;
+}
+
+// Replays the TransferSingle and TransferBatch events of an ERC1155 token (upxCVX and spxCVX
+// have no supply tracking), keyed by id
+export async function getTokenIdLedgers(
+  token: Contract,
+  fromBlock: number,
+  toBlock: number
+): Promise<{ [id: string]: TokenIdLedger }> {
+  const zero = BigNumber.from(0);
+  const ledgers: { [id: string]: TokenIdLedger } = {};
+  const record = (
+    from: string,
+    to: string,
+    id: BigNumber,
+    amount: BigNumber
+  ) => {
+    const key = id.toString();
+    const ledger = (ledgers[key] = ledgers[key] || {
+      minted: zero,
+      burned: zero,
+      balances: {},
+    });
+
+    if (from === constants.AddressZero) {
+      ledger.minted = ledger.minted.add(amount);
+    } else {
+      ledger.balances[from] = (ledger.balances[from] || zero).sub(amount);
+    }
+
+    if (to === constants.AddressZero) {
+      ledger.burned = ledger.burned.add(amount);
+    } else {
+      ledger.balances[to] = (ledger.balances[to] || zero).add(amount);
+    }
+  };
+  const [singles, batches] = await Promise.all([
+    token.queryFilter(token.filters.TransferSingle(), fromBlock, toBlock),
+    token.queryFilter(token.filters.TransferBatch(), fromBlock, toBlock),
+  ]);
+
+  singles.forEach(({ args }) => {
+    if (args) record(args[1], args[2], args[3], args[4]);
+  });
+  batches.forEach(({ args }) => {
+    if (!args) return;
+
+    (args[3] as BigNumber[]).forEach((id, idx) =>
+      record(args[1], args[2], id, args[4][idx])
+    );
+  });
+
+  Object.values(ledgers).forEach(({ balances }) =>
+    Object.keys(balances)
+      .filter((account) => balances[account].isZero())
+      .forEach((account) => delete balances[account])
+  );
+
+  return ledgers;
+}
+
+// CVX rewards recorded in the epochs, less the snapshot rewards redeemed (replayed from
+// RedeemSnapshotRewards) and the futures rewards redeemed (already deducted on-chain)
+async function getUnredeemedCvxRewards(
+  pirexCvx: PirexCvx,
+  pxCvx: PxCvx,
+  cvx: string,
+  fromBlock: number,
+  blockTag: number
+): Promise<BigNumber> {
+  const cvxSnapshotRewards: {
+    [epoch: string]: { [index: number]: BigNumber };
+  } = {};
+  let total = BigNumber.from(0);
+
+  if ((await pxCvx.getCurrentSnapshotId({ blockTag })).isZero()) return total;
+
+  for (
+    let epoch = (await pirexCvx.getCurrentEpoch({ blockTag })).toNumber();
+    epoch > 0;
+    epoch -= EPOCH_DURATION
+  ) {
+    const { snapshotId, rewards, snapshotRewards, futuresRewards } =
+      await pxCvx.getEpoch(epoch, { blockTag });
+
+    rewards.forEach((reward: string, idx: number) => {
+      if (getRewardToken(reward) !== cvx) return;
+
+      cvxSnapshotRewards[epoch] = {
+        ...cvxSnapshotRewards[epoch],
+        [idx]: snapshotRewards[idx],
+      };
+      total = total.add(snapshotRewards[idx]).add(futuresRewards[idx]);
+    });
+
+    // Snapshot ids are sequential, so no rewards precede the epoch of the first one
+    if (snapshotId.eq(1)) break;
+  }
+
+  const redemptions = await pirexCvx.queryFilter(
+    pirexCvx.filters.RedeemSnapshotRewards(),
+    fromBlock,
+    blockTag
+  );
+
+  redemptions.forEach(({ args }: Event) => {
+    if (!args) return;
+
+    const { epoch, rewardIndexes, snapshotBalance, snapshotSupply } = args;
+    const indexes = cvxSnapshotRewards[epoch.toString()] || {};
+
+    rewardIndexes.forEach((index: BigNumber) => {
+      const amount = indexes[index.toNumber()];
+
+      if (amount) {
+        total = total.sub(amount.mul(snapshotBalance).div(snapshotSupply));
+      }
+    });
+  });
+
+  return total;
+}
+
+// Ids whose replayed balances differ from `balanceOf`, with the accounts that differ. Such a
+// ledger misses transfers, e.g. from before `fromBlock`, so its totals cannot be trusted
+async function getLedgerMismatches(
+  token: Contract,
+  ledgers: { [id: string]: TokenIdLedger },
+  blockTag: number
+): Promise<{ [id: string]: string[] }> {
+  const entries = Object.keys(ledgers).flatMap((id) =>
+    Object.keys(ledgers[id].balances).map((account): [string, string] => [
+      id,
+      account,
+    ])
+  );
+
+  if (entries.length === 0) return {};
+
+  const balances: BigNumber[] = await token.balanceOfBatch(
+    entries.map(([, account]) => account),
+    entries.map(([id]) => id),
+    { blockTag }
+  );
+
+  return entries.reduce<{ [id: string]: string[] }>(
+    (memo, [id, account], idx) => {
+      if (!balances[idx].eq(ledgers[id].balances[account])) {
+        memo[id] = [...(memo[id] || []), account];
+      }
+
+      return memo;
+    },
+    {}
+  );
+}
+
+function sum(amounts: BigNumber[]): BigNumber {
+  return amounts.reduce((memo, amount) => memo.add(amount), BigNumber.from(0));
+}
+
+// Reconciles the CVX held by PirexCvx (unlocked and locked) with what it owes: pxCVX, staked
+// pxCVX (spxCVX), upxCVX and unredeemed CVX rewards. Each upxCVX id is also checked against
+// `redemptions` and its lock, the replayed balances of both tokens against `balanceOf`, and
+// every drift is flagged with the ids and holders involved, or as not attributable
+export async function reconcileCustody(
+  pirexCvx: PirexCvx,
+  network: string,
+  {
+    fromBlock = 0,
+    blockNumber,
+    tolerance = 0,
+  }: CustodyReconciliationOptions = {}
+): Promise<CustodyReport> {
+  const { provider } = pirexCvx;
+  const block = await (provider as providers.Provider).getBlock(
+    blockNumber ?? "latest"
+  );
+  const blockTag = block.number;
+  const [cvx, pxCvxAddress, spxCvx, upxCvx, cvxLockerAddress] =
+    await Promise.all([
+      pirexCvx.CVX({ blockTag }),
+      pirexCvx.pxCvx({ blockTag }),
+      pirexCvx.spxCvx({ blockTag }),
+      pirexCvx.upxCvx({ blockTag }),
+      pirexCvx.cvxLocker({ blockTag }),
+    ]);
+  const pxCvx = PxCvx__factory.connect(pxCvxAddress, provider);
+  const cvxLocker = ICvxLocker__factory.connect(cvxLockerAddress, provider);
+  const [
+    cvxBalance,
+    { total: lockedCvx, unlockable: unlockableCvx, lockData },
+    pxCvxSupply,
+    outstandingRedemptions,
+    pendingLocks,
+  ] = await Promise.all([
+    new Contract(cvx, ERC20_ABI, provider).balanceOf(pirexCvx.address, {
+      blockTag,
+    }) as Promise<BigNumber>,
+    cvxLocker.lockedBalances(pirexCvx.address, { blockTag }),
+    pxCvx.totalSupply({ blockTag }),
+    pirexCvx.outstandingRedemptions({ blockTag }),
+    pirexCvx.pendingLocks({ blockTag }),
+  ]);
+  const upxCvxToken = new Contract(upxCvx, ERC1155_ABI, provider);
+  const spxCvxToken = new Contract(spxCvx, ERC1155_ABI, provider);
+  const upxCvxLedgers = await getTokenIdLedgers(
+    upxCvxToken,
+    fromBlock,
+    blockTag
+  );
+  const spxCvxLedgers = await getTokenIdLedgers(
+    spxCvxToken,
+    fromBlock,
+    blockTag
+  );
+  const cvxRewards = await getUnredeemedCvxRewards(
+    pirexCvx,
+    pxCvx,
+    utils.getAddress(cvx),
+    fromBlock,
+    blockTag
+  );
+
+  const locks = (
+    lockData as { amount: BigNumberish; unlockTime: BigNumberish }[]
+  ).reduce<{ [unlockTime: string]: BigNumber }>(
+    (memo, { amount, unlockTime }) => {
+      const key = unlockTime.toString();
+
+      memo[key] = (memo[key] || BigNumber.from(0)).add(amount);
+      return memo;
+    },
+    {}
+  );
+  const unlockTimes = [
+    ...new Set([...Object.keys(locks), ...Object.keys(upxCvxLedgers)]),
+  ]
+    .map(Number)
+    .sort((a, b) => a - b);
+  const redemptions = await Promise.all(
+    unlockTimes.map((unlockTime) =>
+      pirexCvx.redemptions(unlockTime, { blockTag })
+    )
+  );
+  const reconciliations = unlockTimes.map(
+    (unlockTime, idx): UnlockTimeReconciliation => {
+      const ledger = upxCvxLedgers[unlockTime] || {
+        minted: BigNumber.from(0),
+        burned: BigNumber.from(0),
+        balances: {},
+      };
+
+      return {
+        unlockTime,
+        locked: (locks[unlockTime] || BigNumber.from(0)).toString(),
+        redemptions: redemptions[idx].toString(),
+        upxCvxMinted: ledger.minted.toString(),
+        upxCvxOutstanding: ledger.minted.sub(ledger.burned).toString(),
+        holders: Object.keys(ledger.balances).reduce<{
+          [account: string]: string;
+        }>((memo, account) => {
+          memo[account] = ledger.balances[account].toString();
+          return memo;
+        }, {}),
+      };
+    }
+  );
+
+  const issues: CustodyIssue[] = [];
+  // Defaults to the holders of the upxCVX ids
+  const flag = (
+    check: string,
+    message: string,
+    ids: number[],
+    accounts: string[] = reconciliations
+      .filter(({ unlockTime }) => ids.includes(unlockTime))
+      .flatMap(({ holders }) => Object.keys(holders))
+  ) => issues.push({ check, message, ids, accounts: [...new Set(accounts)] });
+
+  const ledgerMismatches = await Promise.all([
+    getLedgerMismatches(upxCvxToken, upxCvxLedgers, blockTag),
+    getLedgerMismatches(spxCvxToken, spxCvxLedgers, blockTag),
+  ]);
+
+  [
+    { check: "upxCvxLedger", name: "upxCVX", mismatches: ledgerMismatches[0] },
+    { check: "spxCvxLedger", name: "spxCVX", mismatches: ledgerMismatches[1] },
+  ].forEach(({ check, name, mismatches }) =>
+    Object.keys(mismatches).forEach((id) =>
+      flag(
+        check,
+        `${name} ${id}: replayed balances differ from balanceOf, so transfers were missed (replayed from block ${fromBlock})`,
+        [Number(id)],
+        mismatches[id]
+      )
+    )
+  );
+
+  reconciliations.forEach(
+    ({ unlockTime, locked, redemptions, upxCvxMinted, upxCvxOutstanding }) => {
+      const isLocked = locks[unlockTime] !== undefined;
+
+      if (isLocked && BigNumber.from(redemptions).gt(locked)) {
+        flag(
+          "redemptionAllowance",
+          `upxCVX ${unlockTime}: redemptions of ${redemptions} exceed the ${locked} locked`,
+          [unlockTime]
+        );
+      }
+      if (!BigNumber.from(upxCvxMinted).eq(redemptions)) {
+        flag(
+          "upxCvxMinted",
+          `upxCVX ${unlockTime}: ${upxCvxMinted} minted, but redemptions(${unlockTime}) is ${redemptions}`,
+          [unlockTime]
+        );
+      }
+      if (
+        !isLocked &&
+        unlockTime > block.timestamp &&
+        !BigNumber.from(upxCvxOutstanding).isZero()
+      ) {
+        flag(
+          "missingLock",
+          `upxCVX ${unlockTime}: ${upxCvxOutstanding} outstanding before its unlock, without a lock`,
+          [unlockTime]
+        );
+      }
+    }
+  );
+
+  const outstanding = reconciliations.filter(
+    ({ upxCvxOutstanding }) => !BigNumber.from(upxCvxOutstanding).isZero()
+  );
+  const totalOutstanding = sum(
+    outstanding.map(({ upxCvxOutstanding }) =>
+      BigNumber.from(upxCvxOutstanding)
+    )
+  );
+
+  if (!totalOutstanding.eq(outstandingRedemptions)) {
+    const minting = issues
+      .filter(({ check }) => check === "upxCvxMinted")
+      .flatMap(({ ids }) => ids);
+
+    flag(
+      "outstandingRedemptions",
+      `${totalOutstanding.toString()} upxCVX outstanding, but outstandingRedemptions is ${outstandingRedemptions.toString()}`,
+      minting.length ? minting : outstanding.map(({ unlockTime }) => unlockTime)
+    );
+  }
+
+  const due = outstanding.filter(
+    ({ unlockTime }) => unlockTime <= block.timestamp
+  );
+  const unlocked = cvxBalance.add(unlockableCvx);
+  const required = sum(
+    due.map(({ upxCvxOutstanding }) => BigNumber.from(upxCvxOutstanding))
+  ).add(pendingLocks);
+
+  if (unlocked.lt(required)) {
+    flag(
+      "unlockedCvx",
+      `${unlocked.toString()} CVX unlocked or unlockable, short of the ${required.toString()} due for redemptions and pending locks`,
+      due.map(({ unlockTime }) => unlockTime)
+    );
+  }
+
+  const spxCvxOutstanding = sum(
+    Object.values(spxCvxLedgers).map(({ minted, burned }) => minted.sub(burned))
+  );
+  const assets = cvxBalance.add(lockedCvx);
+  const liabilities = pxCvxSupply
+    .add(spxCvxOutstanding)
+    .add(outstandingRedemptions)
+    .add(cvxRewards);
+  const drift = assets.sub(liabilities);
+
+  if (drift.abs().gt(tolerance)) {
+    // Attributed to the ids whose ledgers disagree with the on-chain counters or balances
+    const ids = [...new Set(issues.flatMap(({ ids }) => ids))];
+
+    flag(
+      "custody",
+      `${assets.toString()} CVX held, ${liabilities.toString()} owed: ${
+        drift.isNegative() ? "short" : "over"
+      } by ${drift.abs().toString()}${
+        ids.length
+          ? ""
+          : ". Not attributable to any upxCVX or spxCVX id, so check pxCVX, the CVX rewards and CVX sent to PirexCvx directly"
+      }`,
+      ids,
+      issues.flatMap(({ accounts }) => accounts)
+    );
+  }
+
+  return {
+    network,
+    fromBlock,
+    blockNumber: blockTag,
+    timestamp: block.timestamp,
+    assets: {
+      cvxBalance: cvxBalance.toString(),
+      lockedCvx: lockedCvx.toString(),
+      unlockableCvx: unlockableCvx.toString(),
+      total: assets.toString(),
+    },
+    liabilities: {
+      pxCvxSupply: pxCvxSupply.toString(),
+      spxCvxOutstanding: spxCvxOutstanding.toString(),
+      outstandingRedemptions: outstandingRedemptions.toString(),
+      cvxRewards: cvxRewards.toString(),
+      total: liabilities.toString(),
+    },
+    pendingLocks: pendingLocks.toString(),
+    drift: drift.toString(),
+    unlockTimes: reconciliations,
+    issues,
+  };
+}
+
+export function formatCustodyReport(report: CustodyReport): string {
+  const { assets, liabilities } = report;
+  const cvx = (amount: string) => `${utils.formatEther(amount)} CVX`;
+
+  return [
+    `CVX custody of ${report.network} at block ${report.blockNumber}`,
+    `  Held:  ${cvx(assets.total)} (${cvx(assets.cvxBalance)} unlocked, ${cvx(
+      assets.lockedCvx
+    )} locked of which ${cvx(assets.unlockableCvx)} unlockable)`,
+    `  Owed:  ${cvx(liabilities.total)} (${cvx(
+      liabilities.pxCvxSupply
+    )} pxCVX, ${cvx(liabilities.spxCvxOutstanding)} spxCVX, ${cvx(
+      liabilities.outstandingRedemptions
+    )} upxCVX, ${cvx(liabilities.cvxRewards)} rewards)`,
+    `  Drift: ${cvx(report.drift)}, pending locks: ${cvx(report.pendingLocks)}`,
+    "",
+    "Unlock times",
+    ...report.unlockTimes.map(
+      ({ unlockTime, locked, redemptions, upxCvxOutstanding, holders }) =>
+        `  ${unlockTime}: ${cvx(locked)} locked, ${cvx(
+          redemptions
+        )} redemptions, ${cvx(upxCvxOutstanding)} upxCVX outstanding across ${
+          Object.keys(holders).length
+        } holder(s)`
+    ),
+    "",
+    ...report.issues.map(
+      ({ check, message, ids, accounts }) =>
+        `  FLAG ${check}: ${message}${
+          ids.length ? ` (ids ${ids.join(", ")})` : ""
+        }${accounts.length ? ` (accounts ${accounts.join(", ")})` : ""}`
+    ),
+    `${report.issues.length} issue(s)`,
+  ].join("\n");
+}
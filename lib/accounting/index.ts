@@ -0,0 +1,6 @@
+export {
+  formatCustodyReport,
+  getTokenIdLedgers,
+  reconcileCustody,
+} from "./custody";
+export type { CustodyReconciliationOptions, TokenIdLedger } from "./custody";
@@ -0,0 +1,8 @@
+export {
+  auditRoles,
+  formatRoleAuditReport,
+  getDevelopers,
+  getRoleMembers,
+  getRoleName,
+} from "./role-audit";
+export type { RoleAuditOptions, RoleAuditTarget, RoleRule } from "./role-audit";
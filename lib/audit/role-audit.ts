@@ -0,0 +1,295 @@
+import { constants, Contract, Event, providers, utils } from "ethers";
+import { RoleAuditReport, RoleHolding } from "../types";
+
+// Only the parts of the Pirex ABIs the audit reads, so it runs without compiled artifacts
+const OWNABLE_ABI = ["function owner() view returns (address)"];
+const ACCESS_CONTROL_ABI = [
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)",
+];
+const PIREX_CVX_ABI = [
+  "function emergencyExecutor() view returns (address)",
+  "function developers(address developer) view returns (bool)",
+  "event AddDeveloper(address developer)",
+  "event RemoveDeveloper(address developer)",
+];
+
+const ROLE_NAMES: { [role: string]: string } = {
+  [constants.HashZero]: "DEFAULT_ADMIN_ROLE",
+  [utils.id("MINTER_ROLE")]: "MINTER_ROLE",
+};
+
+export interface RoleAuditTarget {
+  // e.g. `SpxCvx`
+  name: string;
+  address: string;
+  ownable?: boolean;
+  accessControl?: boolean;
+  // Also audits the emergency executor and developers
+  pirexCvx?: boolean;
+}
+
+export interface RoleRule {
+  // Holders allowed to hold the role; any holder when unset
+  allowed?: string[];
+  // Holders never allowed to hold the role, with the reason they are flagged
+  forbidden?: { [address: string]: string };
+}
+
+export interface RoleAuditOptions {
+  // Must be at or before the contracts' deployment for the event replay to be complete
+  fromBlock?: number;
+  // Names for known addresses, e.g. `{ "roles.pirexMultisig": "0x..." }`
+  labels?: { [name: string]: string };
+  // Keyed by role name, e.g. `owner` or `MINTER_ROLE`
+  rules?: { [role: string]: RoleRule };
+  // Holders never allowed to hold any role (e.g. the deployer), with the reason they are flagged
+  forbidden?: { [address: string]: string };
+}
+
+type Holding = Pick<
+  RoleHolding,
+  "contract" | "contractAddress" | "role" | "holder"
+>;
+
+export function getRoleName(role: string): string {
+  return ROLE_NAMES[role] || role;
+}
+
+// Events in the order they were emitted
+async function queryEvents(
+  contract: Contract,
+  eventNames: string[],
+  fromBlock: number
+): Promise<Event[]> {
+  const events = await Promise.all(
+    eventNames.map((name) =>
+      contract.queryFilter(contract.filters[name](), fromBlock)
+    )
+  );
+
+  return events
+    .reduce<Event[]>((memo, list) => [...memo, ...list], [])
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
+// Replays RoleGranted and RoleRevoked, then confirms each member with `hasRole`
+export async function getRoleMembers(
+  contract: Contract,
+  fromBlock = 0
+): Promise<{ [role: string]: string[] }> {
+  const members: { [role: string]: Set<string> } = {};
+  const events = await queryEvents(
+    contract,
+    ["RoleGranted", "RoleRevoked"],
+    fromBlock
+  );
+
+  events.forEach(({ event, args }) => {
+    if (!args) return;
+
+    const role: string = args.role;
+    const account = utils.getAddress(args.account);
+
+    members[role] = members[role] || new Set();
+
+    if (event === "RoleGranted") {
+      members[role].add(account);
+    } else {
+      members[role].delete(account);
+    }
+  });
+
+  const confirmed: { [role: string]: string[] } = {};
+
+  for (const role of Object.keys(members)) {
+    const accounts = [...members[role]];
+    const hasRoles = await Promise.all(
+      accounts.map((account) => contract.hasRole(role, account))
+    );
+
+    confirmed[role] = accounts.filter((_, idx) => hasRoles[idx]);
+  }
+
+  return confirmed;
+}
+
+// Replays AddDeveloper and RemoveDeveloper, then confirms each developer with `developers`
+export async function getDevelopers(
+  contract: Contract,
+  fromBlock = 0
+): Promise<string[]> {
+  const developers = new Set<string>();
+  const events = await queryEvents(
+    contract,
+    ["AddDeveloper", "RemoveDeveloper"],
+    fromBlock
+  );
+
+  events.forEach(({ event, args }) => {
+    if (!args) return;
+
+    const developer = utils.getAddress(args.developer);
+
+    if (event === "AddDeveloper") {
+      developers.add(developer);
+    } else {
+      developers.delete(developer);
+    }
+  });
+
+  const accounts = [...developers];
+  const isDeveloper = await Promise.all(
+    accounts.map((account) => contract.developers(account))
+  );
+
+  return accounts.filter((_, idx) => isDeveloper[idx]);
+}
+
+async function getHoldings(
+  provider: providers.Provider,
+  { name, address, ownable, accessControl, pirexCvx }: RoleAuditTarget,
+  fromBlock: number
+): Promise<Holding[]> {
+  const holdings: Holding[] = [];
+  const add = (role: string, holder: string) =>
+    holdings.push({ contract: name, contractAddress: address, role, holder });
+
+  if (ownable) {
+    add("owner", await new Contract(address, OWNABLE_ABI, provider).owner());
+  }
+  if (accessControl) {
+    const contract = new Contract(address, ACCESS_CONTROL_ABI, provider);
+    const members = await getRoleMembers(contract, fromBlock);
+
+    Object.keys(members).forEach((role) =>
+      members[role].forEach((member) => add(getRoleName(role), member))
+    );
+  }
+  if (pirexCvx) {
+    const contract = new Contract(address, PIREX_CVX_ABI, provider);
+
+    add("emergencyExecutor", await contract.emergencyExecutor());
+    (await getDevelopers(contract, fromBlock)).forEach((developer) =>
+      add("developer", developer)
+    );
+  }
+
+  return holdings;
+}
+
+function findAddress(
+  addresses: { [address: string]: string },
+  holder: string
+): string | undefined {
+  const match = Object.keys(addresses).find(
+    (address) => address.toLowerCase() === holder.toLowerCase()
+  );
+
+  return match && addresses[match];
+}
+
+// Unset until `initializeEmergencyExecutor` is called, which is a normal deployed state
+function isUninitializedExecutor({ role, holder }: Holding): boolean {
+  return role === "emergencyExecutor" && holder === constants.AddressZero;
+}
+
+function getUnexpectedReason(
+  holding: Holding,
+  { rules = {}, forbidden = {} }: RoleAuditOptions
+): string | undefined {
+  const { role, holder } = holding;
+  const rule = rules[role] || {};
+
+  if (isUninitializedExecutor(holding)) return;
+  if (holder === constants.AddressZero) return "Not set";
+
+  const reason =
+    findAddress(forbidden, holder) || findAddress(rule.forbidden || {}, holder);
+
+  if (reason) return reason;
+  if (
+    rule.allowed &&
+    !rule.allowed.some(
+      (address) => address.toLowerCase() === holder.toLowerCase()
+    )
+  ) {
+    return `Not an expected ${role} holder`;
+  }
+}
+
+// Lists every owner, role member, emergency executor and developer of the targets, flagging
+// holders that break the rules (e.g. an owner other than the multisig, or the deployer anywhere)
+export async function auditRoles(
+  provider: providers.Provider,
+  network: string,
+  targets: RoleAuditTarget[],
+  options: RoleAuditOptions = {}
+): Promise<RoleAuditReport> {
+  const { fromBlock = 0, labels = {} } = options;
+  const holdings: RoleHolding[] = [];
+  const codes: { [holder: string]: string } = {};
+
+  for (const target of targets) {
+    for (const holding of await getHoldings(provider, target, fromBlock)) {
+      const reason = getUnexpectedReason(holding, options);
+
+      codes[holding.holder] =
+        codes[holding.holder] || (await provider.getCode(holding.holder));
+      holdings.push({
+        ...holding,
+        knownAs: Object.keys(labels).filter(
+          (name) => labels[name].toLowerCase() === holding.holder.toLowerCase()
+        ),
+        isContract: codes[holding.holder] !== "0x",
+        expected: reason === undefined,
+        ...(reason ? { reason } : {}),
+        ...(isUninitializedExecutor(holding)
+          ? { note: "Not initialized" }
+          : {}),
+      });
+    }
+  }
+
+  return {
+    network,
+    fromBlock,
+    holdings,
+    unexpected: holdings.filter(({ expected }) => !expected).length,
+  };
+}
+
+export function formatRoleAuditReport(report: RoleAuditReport): string {
+  const lines = report.holdings.map(
+    ({
+      contract,
+      role,
+      holder,
+      knownAs,
+      isContract,
+      expected,
+      reason,
+      note,
+    }) => {
+      const name = [
+        holder,
+        ...(knownAs.length ? [`(${knownAs.join(", ")})`] : []),
+        isContract ? "[contract]" : "[EOA]",
+      ].join(" ");
+
+      if (!expected) return `  FLAG ${contract} ${role}: ${name}: ${reason}`;
+
+      return note
+        ? `  INFO ${contract} ${role}: ${name}: ${note}`
+        : `  OK   ${contract} ${role}: ${name}`;
+    }
+  );
+
+  return [
+    `Role audit of ${report.network} from block ${report.fromBlock}`,
+    ...lines,
+    "",
+    `${report.holdings.length} holding(s), ${report.unexpected} unexpected`,
+  ].join("\n");
+}
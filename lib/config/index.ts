@@ -0,0 +1,9 @@
+export {
+  DEFAULT_CONFIG_DIR,
+  NetworkConfigError,
+  readNetworkConfig,
+  validateNetworkConfig,
+  loadNetworkConfig,
+  getDeployedContracts,
+} from "./network-config";
+export type { DeployedContracts, NetworkConfigIssue } from "./network-config";
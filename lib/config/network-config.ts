@@ -0,0 +1,275 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import { constants, Contract, providers, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DEFAULT_MANIFEST_DIR, readDeploymentManifest } from "../deployment";
+import { NetworkConfig } from "../types";
+
+const { getAddress, isAddress } = utils;
+
+const UNION_PIREX_STRATEGY_ABI = [
+  "function distributor() view returns (address)",
+];
+
+export const DEFAULT_CONFIG_DIR = join("config", "networks");
+
+// The in-process Hardhat network forks mainnet the same way a local node does
+const NETWORK_CONFIG_ALIASES: { [network: string]: string } = {
+  hardhat: "localhost",
+};
+
+const EXTERNAL_KEYS: (keyof NetworkConfig["external"])[] = [
+  "cvx",
+  "cvxLockerV2",
+  "convexDelegateRegistry",
+  "votiumMultiMerkleStash",
+];
+const ROLE_KEYS: (keyof NetworkConfig["roles"])[] = [
+  "redactedMultisig",
+  "pirexMultisig",
+  "unionDistributor",
+];
+// Deployed by scripts/mainnet/deployContracts.ts
+const CONTRACT_KEYS: (keyof DeployedContracts)[] = [
+  "pxCvx",
+  "spxCvx",
+  "upxCvx",
+  "vpxCvx",
+  "rpxCvx",
+  "pirexFees",
+  "pirexCvx",
+  "unionPirexVault",
+  "unionPirexStrategy",
+];
+
+// Deployed separately, and only audited when configured
+const OPTIONAL_CONTRACT_KEYS: (keyof NetworkConfig["contracts"])[] = ["wpxCvx"];
+
+export type DeployedContracts = Required<
+  Omit<NetworkConfig["contracts"], "wpxCvx">
+>;
+
+export interface NetworkConfigIssue {
+  // e.g. `roles.pirexMultisig`
+  path: string;
+  message: string;
+}
+
+export class NetworkConfigError extends Error {
+  readonly issues: NetworkConfigIssue[];
+
+  constructor(network: string, issues: NetworkConfigIssue[]) {
+    super(
+      [
+        `Found ${issues.length} issue(s) in the ${network} network configuration`,
+        ...issues.map(({ path, message }) => `  ${path}: ${message}`),
+      ].join("\n")
+    );
+    this.name = "NetworkConfigError";
+    this.issues = issues;
+  }
+}
+
+// Every configured address, keyed by its path in the configuration
+function getAddressEntries(config: NetworkConfig): [string, unknown][] {
+  const contracts = config.contracts || {};
+
+  return [
+    ...EXTERNAL_KEYS.map((key): [string, unknown] => [
+      `external.${key}`,
+      (config.external || {})[key],
+    ]),
+    ...ROLE_KEYS.map((key): [string, unknown] => [
+      `roles.${key}`,
+      (config.roles || {})[key],
+    ]),
+    ...[...CONTRACT_KEYS, ...OPTIONAL_CONTRACT_KEYS]
+      .filter((key) => contracts[key] !== undefined)
+      .map((key): [string, unknown] => [`contracts.${key}`, contracts[key]]),
+  ];
+}
+
+function isAllowedAlias(config: NetworkConfig, first: string, second: string) {
+  return (config.allowedAliases || []).some(
+    (pair) => pair.includes(first) && pair.includes(second)
+  );
+}
+
+export async function readNetworkConfig(
+  network: string,
+  configDir: string = DEFAULT_CONFIG_DIR
+): Promise<NetworkConfig> {
+  const path = join(
+    configDir,
+    `${NETWORK_CONFIG_ALIASES[network] || network}.json`
+  );
+
+  try {
+    return JSON.parse(await fs.readFile(path, "utf8"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`No configuration for network ${network} (${path})`);
+    }
+
+    throw err;
+  }
+}
+
+// Checks that every address is checksummed, non-zero, has code on the connected chain,
+// that no two entries share an address unless listed in `allowedAliases`, and that a
+// deployed UnionPirexStrategy pays out to the configured Union distributor
+export async function validateNetworkConfig(
+  config: NetworkConfig,
+  provider: providers.Provider
+): Promise<NetworkConfigIssue[]> {
+  const issues: NetworkConfigIssue[] = [];
+  const pathsByAddress: { [address: string]: string[] } = {};
+  const { chainId } = await provider.getNetwork();
+
+  if (config.chainId !== chainId) {
+    issues.push({
+      path: "chainId",
+      message: `Configured for chain ${config.chainId}, but connected to chain ${chainId}`,
+    });
+  }
+
+  Object.keys(config.contracts || {}).forEach((key) => {
+    if (
+      ![...CONTRACT_KEYS, ...OPTIONAL_CONTRACT_KEYS].includes(
+        key as keyof NetworkConfig["contracts"]
+      )
+    ) {
+      issues.push({ path: `contracts.${key}`, message: "Unknown contract" });
+    }
+  });
+
+  const addressEntries = getAddressEntries(config).filter(([path, address]) => {
+    if (typeof address !== "string" || !isAddress(address)) {
+      issues.push({ path, message: "Expected an address" });
+      return false;
+    }
+    if (getAddress(address) !== address) {
+      issues.push({ path, message: `Expected ${getAddress(address)}` });
+    }
+    if (getAddress(address) === constants.AddressZero) {
+      issues.push({ path, message: "Must not be the zero address" });
+      return false;
+    }
+
+    return true;
+  }) as [string, string][];
+
+  const codes = await Promise.all(
+    addressEntries.map(([, address]) => provider.getCode(address))
+  );
+
+  addressEntries.forEach(([path, address], idx) => {
+    if (codes[idx] === "0x") {
+      issues.push({ path, message: `No contract code at ${address}` });
+    }
+
+    const key = address.toLowerCase();
+
+    (pathsByAddress[key] || []).forEach((aliasedPath) => {
+      if (isAllowedAlias(config, aliasedPath, path)) return;
+
+      issues.push({
+        path,
+        message: `Same address as ${aliasedPath} (${address}); add both to allowedAliases if intended`,
+      });
+    });
+
+    pathsByAddress[key] = [...(pathsByAddress[key] || []), path];
+  });
+
+  // A deployed strategy sends the Union rewards to its own distributor, whatever is configured
+  const strategyIdx = addressEntries.findIndex(
+    ([path]) => path === "contracts.unionPirexStrategy"
+  );
+  const distributorEntry = addressEntries.find(
+    ([path]) => path === "roles.unionDistributor"
+  );
+
+  if (strategyIdx !== -1 && codes[strategyIdx] !== "0x" && distributorEntry) {
+    const distributor: string = await new Contract(
+      addressEntries[strategyIdx][1],
+      UNION_PIREX_STRATEGY_ABI,
+      provider
+    ).distributor();
+
+    if (distributor.toLowerCase() !== distributorEntry[1].toLowerCase()) {
+      issues.push({
+        path: "roles.unionDistributor",
+        message: `UnionPirexStrategy.distributor() is ${distributor}`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+// Loads and validates the configuration of the network Hardhat is connected to,
+// filling in contracts recorded by the deployer in `deployments/<network>.json`.
+// `forkOf` loads another network's configuration instead, for local forks of it
+export async function loadNetworkConfig(
+  { ethers, network }: HardhatRuntimeEnvironment,
+  {
+    configDir = DEFAULT_CONFIG_DIR,
+    manifestDir = DEFAULT_MANIFEST_DIR,
+    forkOf,
+  }: { configDir?: string; manifestDir?: string; forkOf?: string } = {}
+): Promise<NetworkConfig> {
+  const configNetwork = forkOf || network.name;
+  const config = await readNetworkConfig(configNetwork, configDir);
+  const { chainId } = await ethers.provider.getNetwork();
+  const { deployments } = await readDeploymentManifest(
+    configNetwork,
+    forkOf ? config.chainId : chainId,
+    manifestDir
+  );
+  const issues: NetworkConfigIssue[] = [];
+  const contracts: NetworkConfig["contracts"] = { ...config.contracts };
+
+  CONTRACT_KEYS.forEach((key) => {
+    const deployment = deployments[key];
+
+    if (!deployment || deployment.block === undefined) return;
+    if (
+      contracts[key] !== undefined &&
+      String(contracts[key]).toLowerCase() !== deployment.address.toLowerCase()
+    ) {
+      issues.push({
+        path: `contracts.${key}`,
+        message: `Configured as ${contracts[key]}, but deployed at ${deployment.address}`,
+      });
+    }
+
+    contracts[key] = contracts[key] || deployment.address;
+  });
+
+  const merged = { ...config, contracts };
+
+  // A fork has the forked network's state, but its own chain id
+  issues.push(
+    ...(await validateNetworkConfig(merged, ethers.provider)).filter(
+      ({ path }) => !forkOf || path !== "chainId"
+    )
+  );
+
+  if (issues.length !== 0) throw new NetworkConfigError(configNetwork, issues);
+
+  return merged;
+}
+
+// The Pirex contract addresses, for scripts that operate on a complete deployment
+export function getDeployedContracts(config: NetworkConfig): DeployedContracts {
+  const missing = CONTRACT_KEYS.filter((key) => !config.contracts[key]);
+
+  if (missing.length !== 0) {
+    throw new Error(
+      `Missing ${config.network} addresses for: ${missing.join(", ")}`
+    );
+  }
+
+  return config.contracts as DeployedContracts;
+}
@@ -0,0 +1,174 @@
+import { BigNumber, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeploymentManifest, DeploymentRecord } from "../types";
+import {
+  DEFAULT_MANIFEST_DIR,
+  getManifestPath,
+  readDeploymentManifest,
+  writeDeploymentManifest,
+} from "./manifest";
+
+export type DeployedAddresses = { [step: string]: string };
+
+export interface DeploymentStep {
+  // Manifest key, also used by later steps to refer to the deployed address
+  name: string;
+  contract: string;
+  // Constructor arguments, optionally derived from the addresses of earlier steps
+  args?: unknown[] | ((deployed: DeployedAddresses) => unknown[]);
+}
+
+export interface DeploymentOptions {
+  manifestDir?: string;
+  log?: (message: string) => void;
+  // Print the steps that would run, with predicted addresses, without sending or recording anything
+  dryRun?: boolean;
+}
+
+// Constructor arguments as recorded in the manifest
+function serializeArgs(args: unknown[]): unknown[] {
+  return args.map((arg) => (BigNumber.isBigNumber(arg) ? arg.toString() : arg));
+}
+
+function assertUnchanged(
+  step: DeploymentStep,
+  args: unknown[],
+  record: DeploymentRecord,
+  manifestPath: string
+) {
+  const recorded = JSON.stringify([record.contract, record.args]);
+  const current = JSON.stringify([step.contract, args]);
+
+  if (recorded.toLowerCase() !== current.toLowerCase()) {
+    throw new Error(
+      `${step.name} was deployed as ${recorded}, but is now ${current}. Remove it from ${manifestPath} to redeploy`
+    );
+  }
+}
+
+// Settles a deployment whose transaction was sent by an interrupted run.
+// Returns undefined if the transaction was dropped or reverted
+async function settlePendingDeployment(
+  { ethers }: HardhatRuntimeEnvironment,
+  record: DeploymentRecord
+): Promise<DeploymentRecord | undefined> {
+  if (!(await ethers.provider.getTransaction(record.txHash))) return;
+
+  const receipt = await ethers.provider.waitForTransaction(record.txHash);
+
+  return receipt.status === 1
+    ? { ...record, block: receipt.blockNumber }
+    : undefined;
+}
+
+async function deployStep(
+  { ethers }: HardhatRuntimeEnvironment,
+  step: DeploymentStep,
+  args: unknown[],
+  manifest: DeploymentManifest,
+  manifestDir: string,
+  log: (message: string) => void
+): Promise<DeploymentRecord> {
+  const factory = await ethers.getContractFactory(step.contract);
+  const contract = await factory.deploy(...args);
+  const record: DeploymentRecord = {
+    contract: step.contract,
+    address: contract.address,
+    txHash: contract.deployTransaction.hash,
+    args,
+  };
+
+  // Recorded before waiting so a rerun can pick the transaction back up
+  manifest.deployments[step.name] = record;
+  await writeDeploymentManifest(manifest, manifestDir);
+  log(`${step.name}: deploying ${step.contract} (${record.txHash})`);
+
+  const receipt = await contract.deployTransaction.wait();
+
+  record.block = receipt.blockNumber;
+  await writeDeploymentManifest(manifest, manifestDir);
+  log(`${step.name}: ${record.address}`);
+
+  return record;
+}
+
+// Runs the steps in order, skipping any already recorded in `<manifestDir>/<network>.json`.
+// The manifest is saved after every transaction, so a failed run resumes where it stopped
+export async function runDeploymentSteps(
+  hre: HardhatRuntimeEnvironment,
+  steps: DeploymentStep[],
+  {
+    manifestDir = DEFAULT_MANIFEST_DIR,
+    log = console.log,
+    dryRun = false,
+  }: DeploymentOptions = {}
+): Promise<DeployedAddresses> {
+  const { ethers, network } = hre;
+  const { chainId } = await ethers.provider.getNetwork();
+  const manifestPath = getManifestPath(network.name, manifestDir);
+  const manifest = await readDeploymentManifest(
+    network.name,
+    chainId,
+    manifestDir
+  );
+  const deployed: DeployedAddresses = {};
+  const [deployer] = await ethers.getSigners();
+  let nonce = await deployer.getTransactionCount("pending");
+
+  steps.forEach(({ name }, idx) => {
+    if (steps.findIndex((step) => step.name === name) !== idx) {
+      throw new Error(`Duplicate deployment step: ${name}`);
+    }
+  });
+
+  for (const step of steps) {
+    const args = serializeArgs(
+      typeof step.args === "function" ? step.args(deployed) : step.args || []
+    );
+    let record: DeploymentRecord | undefined = manifest.deployments[step.name];
+
+    if (record) {
+      assertUnchanged(step, args, record, manifestPath);
+
+      if (record.block === undefined) {
+        record = await settlePendingDeployment(hre, record);
+
+        if (record && !dryRun) {
+          manifest.deployments[step.name] = record;
+          await writeDeploymentManifest(manifest, manifestDir);
+        }
+      }
+    }
+
+    // e.g. a local node that was restarted since the manifest was written
+    if (record && (await ethers.provider.getCode(record.address)) === "0x") {
+      log(`${step.name}: no code at ${record.address}, redeploying`);
+      record = undefined;
+    }
+
+    if (record) {
+      log(`${step.name}: ${record.address} (already deployed)`);
+    } else if (dryRun) {
+      record = {
+        contract: step.contract,
+        address: utils.getContractAddress({
+          from: deployer.address,
+          nonce: nonce++,
+        }),
+        txHash: "",
+        args,
+      };
+      log(
+        `${step.name}: would deploy ${step.contract}(${args
+          .map((arg) => JSON.stringify(arg))
+          .join(", ")}) at ${record.address}`
+      );
+    } else {
+      record = await deployStep(hre, step, args, manifest, manifestDir, log);
+    }
+
+    deployed[step.name] = record.address;
+  }
+
+  return deployed;
+}
@@ -0,0 +1,16 @@
+export {
+  DEFAULT_MANIFEST_DIR,
+  getManifestPath,
+  readDeploymentManifest,
+  writeDeploymentManifest,
+} from "./manifest";
+export { runDeploymentSteps } from "./deployer";
+export type {
+  DeployedAddresses,
+  DeploymentOptions,
+  DeploymentStep,
+} from "./deployer";
+export {
+  getVerificationPayload,
+  checkVerificationPayload,
+} from "./verification";
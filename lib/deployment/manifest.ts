@@ -0,0 +1,52 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import { DeploymentManifest } from "../types";
+
+export const DEFAULT_MANIFEST_DIR = "deployments";
+
+export function getManifestPath(
+  network: string,
+  dir: string = DEFAULT_MANIFEST_DIR
+): string {
+  return join(dir, `${network}.json`);
+}
+
+// Starts an empty manifest if the network has no deployments yet
+export async function readDeploymentManifest(
+  network: string,
+  chainId: number,
+  dir: string = DEFAULT_MANIFEST_DIR
+): Promise<DeploymentManifest> {
+  const path = getManifestPath(network, dir);
+  let manifest: DeploymentManifest;
+
+  try {
+    manifest = JSON.parse(await fs.readFile(path, "utf8"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return { network, chainId, deployments: {} };
+    }
+
+    throw err;
+  }
+
+  if (manifest.chainId !== chainId) {
+    throw new Error(
+      `${path} was recorded on chain ${manifest.chainId}, not ${chainId}`
+    );
+  }
+
+  return manifest;
+}
+
+// Written through a temporary file so an interrupted run never leaves a truncated manifest
+export async function writeDeploymentManifest(
+  manifest: DeploymentManifest,
+  dir: string = DEFAULT_MANIFEST_DIR
+): Promise<void> {
+  const path = getManifestPath(manifest.network, dir);
+
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(`${path}.tmp`, `${JSON.stringify(manifest, null, 2)}\n`);
+  await fs.rename(`${path}.tmp`, path);
+}
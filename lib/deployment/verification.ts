@@ -0,0 +1,60 @@
+import { utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeploymentRecord, VerificationPayload } from "../types";
+
+export async function getVerificationPayload(
+  { artifacts }: HardhatRuntimeEnvironment,
+  step: string,
+  { contract, address, txHash, args }: DeploymentRecord
+): Promise<VerificationPayload> {
+  const { sourceName, contractName, abi } = await artifacts.readArtifact(
+    contract
+  );
+  const fullyQualifiedName = `${sourceName}:${contractName}`;
+  const buildInfo = await artifacts.getBuildInfo(fullyQualifiedName);
+
+  if (!buildInfo) {
+    throw new Error(
+      `No build info for ${fullyQualifiedName}, run \`npx hardhat compile\``
+    );
+  }
+
+  return {
+    step,
+    contract: fullyQualifiedName,
+    address,
+    txHash,
+    compilerVersion: `v${buildInfo.solcLongVersion}`,
+    constructorArguments: args,
+    encodedConstructorArguments: new utils.Interface(abi).encodeDeploy(args),
+    standardJsonInput: buildInfo.input,
+  };
+}
+
+// Checks the payload against the chain: the deployment transaction must have created the contract
+// at the recorded address, and its calldata must end with the encoded constructor arguments
+export async function checkVerificationPayload(
+  { ethers }: HardhatRuntimeEnvironment,
+  { address, txHash, encodedConstructorArguments }: VerificationPayload
+): Promise<string[]> {
+  const problems: string[] = [];
+  const [tx, receipt] = await Promise.all([
+    ethers.provider.getTransaction(txHash),
+    ethers.provider.getTransactionReceipt(txHash),
+  ]);
+
+  if (!tx || !receipt) return [`Transaction ${txHash} not found`];
+
+  if (receipt.contractAddress?.toLowerCase() !== address.toLowerCase()) {
+    problems.push(
+      `Transaction ${txHash} created ${receipt.contractAddress}, not ${address}`
+    );
+  }
+  if (!tx.data.endsWith(encodedConstructorArguments.slice(2))) {
+    problems.push(
+      "Deployment calldata does not end with the recorded constructor arguments"
+    );
+  }
+
+  return problems;
+}
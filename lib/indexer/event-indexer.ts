@@ -0,0 +1,185 @@
+import { BigNumber, providers, utils } from "ethers";
+import { EventStore, StoredBlock, StoredEvent } from "./event-store";
+
+export interface EventSource {
+  // Stored as the events' `contract`
+  name: string;
+  address: string;
+  contractInterface: utils.Interface;
+  // Typically the deployment block
+  fromBlock: number;
+}
+
+export interface SyncOptions {
+  // Blocks behind the head left for a later sync
+  confirmations?: number;
+  // Blocks per `eth_getLogs` request
+  batchSize?: number;
+  // Recorded block hashes checked (and kept) to detect reorgs
+  reorgDepth?: number;
+  toBlock?: number;
+}
+
+export interface SyncResult {
+  // Last canonical block when a reorg was rolled back
+  rolledBackTo?: number;
+  toBlock: number;
+  events: number;
+}
+
+export class ReorgTooDeepError extends Error {
+  readonly blockNumber: number;
+
+  constructor(blockNumber: number) {
+    super(
+      `Block ${blockNumber}, the oldest recorded, is no longer canonical. Reindex into a new store`
+    );
+    this.name = "ReorgTooDeepError";
+    this.blockNumber = blockNumber;
+  }
+}
+
+// Integers become decimal strings and tuples objects keyed by component name, so args survive JSON
+function serializeArg(param: utils.ParamType, value: unknown): unknown {
+  if (BigNumber.isBigNumber(value)) return value.toString();
+  if (param.baseType === "array") {
+    return (value as unknown[]).map((item) =>
+      serializeArg(param.arrayChildren, item)
+    );
+  }
+  if (param.baseType === "tuple") {
+    return serializeArgs(param.components, value as utils.Result);
+  }
+
+  return value;
+}
+
+function serializeArgs(
+  params: utils.ParamType[],
+  values: utils.Result
+): { [name: string]: unknown } {
+  return params.reduce<{ [name: string]: unknown }>((memo, param, idx) => {
+    memo[param.name || String(idx)] = serializeArg(param, values[idx]);
+    return memo;
+  }, {});
+}
+
+// Logs whose topic is not in the source's interface are skipped
+function decodeLogs(source: EventSource, logs: providers.Log[]): StoredEvent[] {
+  return logs.reduce<StoredEvent[]>((memo, log) => {
+    let parsed: utils.LogDescription;
+
+    try {
+      parsed = source.contractInterface.parseLog(log);
+    } catch (err) {
+      return memo;
+    }
+
+    memo.push({
+      blockNumber: log.blockNumber,
+      logIndex: log.logIndex,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      contract: source.name,
+      address: utils.getAddress(log.address),
+      event: parsed.name,
+      signature: parsed.signature,
+      args: serializeArgs(parsed.eventFragment.inputs, parsed.args),
+    });
+
+    return memo;
+  }, []);
+}
+
+// Returns the last recorded block that is still canonical if any recorded block was reorged out.
+// Oldest first, so a reorg racing the previous sync is caught even if its last block is canonical
+async function findReorg(
+  provider: providers.Provider,
+  store: EventStore
+): Promise<number | undefined> {
+  const blocks = store.getBlocks().reverse();
+
+  for (const [idx, { number, hash }] of blocks.entries()) {
+    const block = await provider.getBlock(number);
+
+    if (block && block.hash === hash) continue;
+    if (idx === 0) throw new ReorgTooDeepError(number);
+
+    return blocks[idx - 1].number;
+  }
+
+  return undefined;
+}
+
+// Rolls back any reorged blocks, then stores the sources' events up to the head (less
+// `confirmations`) in batches. Each batch is committed with its sources' checkpoints, so an
+// interrupted sync resumes after the last committed batch
+export async function syncEvents(
+  provider: providers.Provider,
+  store: EventStore,
+  sources: EventSource[],
+  {
+    confirmations = 0,
+    batchSize = 2000,
+    reorgDepth = 64,
+    toBlock,
+  }: SyncOptions = {}
+): Promise<SyncResult> {
+  const rolledBackTo = await findReorg(provider, store);
+
+  if (rolledBackTo !== undefined) store.rollback(rolledBackTo);
+
+  const head = toBlock ?? (await provider.getBlockNumber()) - confirmations;
+  const checkpoints = sources.map((source) => ({
+    source,
+    indexedTo: store.addSource(
+      source.name,
+      utils.getAddress(source.address),
+      source.fromBlock
+    ).indexedTo,
+  }));
+  let events = 0;
+
+  for (
+    let from = Math.min(...checkpoints.map(({ indexedTo }) => indexedTo + 1));
+    from <= head;
+    from += batchSize
+  ) {
+    const to = Math.min(from + batchSize - 1, head);
+    const pending = checkpoints.filter(({ indexedTo }) => indexedTo < to);
+    const blocks: StoredBlock[] = [];
+    const batch: StoredEvent[] = [];
+
+    for (const { source, indexedTo } of pending) {
+      const logs = await provider.getLogs({
+        address: source.address,
+        fromBlock: Math.max(from, indexedTo + 1),
+        toBlock: to,
+      });
+
+      batch.push(...decodeLogs(source, logs));
+      blocks.push(
+        ...logs.map(({ blockNumber, blockHash }) => ({
+          number: blockNumber,
+          hash: blockHash,
+        }))
+      );
+    }
+
+    blocks.push({ number: to, hash: (await provider.getBlock(to)).hash });
+    store.saveBatch(
+      pending.map(({ source }) => source.name),
+      to,
+      blocks,
+      batch
+    );
+    pending.forEach((checkpoint) => {
+      checkpoint.indexedTo = to;
+    });
+    events += batch.length;
+  }
+
+  store.pruneBlocks(reorgDepth);
+
+  return { rolledBackTo, toBlock: head, events };
+}
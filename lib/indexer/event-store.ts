@@ -0,0 +1,256 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import { dirname, join } from "path";
+
+export const DEFAULT_EVENT_STORE_DIR = join("data", "events");
+
+export interface StoredEvent {
+  blockNumber: number;
+  logIndex: number;
+  blockHash: string;
+  transactionHash: string;
+  // Name of the event source, e.g. `PirexCvx`
+  contract: string;
+  address: string;
+  event: string;
+  signature: string;
+  // Decoded arguments by name, with integers as decimal strings
+  args: { [name: string]: unknown };
+}
+
+export interface StoredBlock {
+  number: number;
+  hash: string;
+}
+
+export interface StoredSource {
+  name: string;
+  address: string;
+  fromBlock: number;
+  // Last block whose logs are stored, `fromBlock - 1` before the first sync
+  indexedTo: number;
+}
+
+export interface EventQuery {
+  contract?: string;
+  event?: string;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS sources (
+    name TEXT PRIMARY KEY,
+    address TEXT NOT NULL,
+    from_block INTEGER NOT NULL,
+    indexed_to INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    contract TEXT NOT NULL,
+    address TEXT NOT NULL,
+    event TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    args TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_contract_event
+    ON events (contract, event, block_number);
+`;
+
+export function getEventStorePath(
+  network: string,
+  dir: string = DEFAULT_EVENT_STORE_DIR
+): string {
+  return join(dir, `${network}.sqlite`);
+}
+
+// SQLite storage for indexed events. Each sync batch is written in one transaction together
+// with the hashes of its blocks, which are what reorgs are detected against
+export class EventStore {
+  readonly db: Database.Database;
+
+  // `:memory:` keeps the store in memory, e.g. for tests
+  constructor(filename: string, chainId: number) {
+    if (filename !== ":memory:") {
+      mkdirSync(dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+
+    const stored = this.db
+      .prepare("SELECT value FROM meta WHERE key = 'chainId'")
+      .get() as { value: string } | undefined;
+
+    if (!stored) {
+      this.db
+        .prepare("INSERT INTO meta (key, value) VALUES ('chainId', ?)")
+        .run(String(chainId));
+    } else if (Number(stored.value) !== chainId) {
+      throw new Error(
+        `${filename} was indexed from chain ${stored.value}, not ${chainId}`
+      );
+    }
+  }
+
+  getSources(): StoredSource[] {
+    return this.db
+      .prepare(
+        `SELECT name, address, from_block AS fromBlock, indexed_to AS indexedTo
+        FROM sources ORDER BY name`
+      )
+      .all() as StoredSource[];
+  }
+
+  // Registers a source, or restarts it from scratch when its address or start block changed
+  addSource(name: string, address: string, fromBlock: number): StoredSource {
+    const existing = this.getSources().find((source) => source.name === name);
+
+    if (
+      existing &&
+      existing.address === address &&
+      existing.fromBlock === fromBlock
+    ) {
+      return existing;
+    }
+
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM events WHERE contract = ?").run(name);
+      this.db
+        .prepare(
+          `INSERT OR REPLACE INTO sources (name, address, from_block, indexed_to)
+          VALUES (?, ?, ?, ?)`
+        )
+        .run(name, address, fromBlock, fromBlock - 1);
+    })();
+
+    return { name, address, fromBlock, indexedTo: fromBlock - 1 };
+  }
+
+  // Newest first
+  getBlocks(): StoredBlock[] {
+    return this.db
+      .prepare("SELECT number, hash FROM blocks ORDER BY number DESC")
+      .all() as StoredBlock[];
+  }
+
+  // Stores the events of one batch and advances the sources it covered to `toBlock`
+  saveBatch(
+    sources: string[],
+    toBlock: number,
+    blocks: StoredBlock[],
+    events: StoredEvent[]
+  ): void {
+    const insertBlock = this.db.prepare(
+      "INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)"
+    );
+    const insertEvent = this.db.prepare(
+      `INSERT OR REPLACE INTO events (block_number, log_index, block_hash, transaction_hash,
+        contract, address, event, signature, args)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const updateSource = this.db.prepare(
+      "UPDATE sources SET indexed_to = ? WHERE name = ? AND indexed_to < ?"
+    );
+
+    this.db.transaction(() => {
+      blocks.forEach(({ number, hash }) => insertBlock.run(number, hash));
+      events.forEach((event) =>
+        insertEvent.run(
+          event.blockNumber,
+          event.logIndex,
+          event.blockHash,
+          event.transactionHash,
+          event.contract,
+          event.address,
+          event.event,
+          event.signature,
+          JSON.stringify(event.args)
+        )
+      );
+      sources.forEach((name) => updateSource.run(toBlock, name, toBlock));
+    })();
+  }
+
+  // Drops everything after `blockNumber`, the last block still on the canonical chain
+  rollback(blockNumber: number): void {
+    this.db.transaction(() => {
+      this.db
+        .prepare("DELETE FROM events WHERE block_number > ?")
+        .run(blockNumber);
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+      this.db
+        .prepare(
+          "UPDATE sources SET indexed_to = MAX(from_block - 1, ?) WHERE indexed_to > ?"
+        )
+        .run(blockNumber, blockNumber);
+    })();
+  }
+
+  // Keeps the hashes of the latest `count` recorded blocks
+  pruneBlocks(count: number): void {
+    this.db
+      .prepare(
+        `DELETE FROM blocks WHERE number NOT IN (
+          SELECT number FROM blocks ORDER BY number DESC LIMIT ?
+        )`
+      )
+      .run(count);
+  }
+
+  getEvents({
+    contract,
+    event,
+    fromBlock,
+    toBlock,
+  }: EventQuery = {}): StoredEvent[] {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (contract !== undefined) {
+      conditions.push("contract = ?");
+      params.push(contract);
+    }
+    if (event !== undefined) {
+      conditions.push("event = ?");
+      params.push(event);
+    }
+    if (fromBlock !== undefined) {
+      conditions.push("block_number >= ?");
+      params.push(fromBlock);
+    }
+    if (toBlock !== undefined) {
+      conditions.push("block_number <= ?");
+      params.push(toBlock);
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT block_number AS blockNumber, log_index AS logIndex, block_hash AS blockHash,
+          transaction_hash AS transactionHash, contract, address, event, signature, args
+        FROM events
+        ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+        ORDER BY block_number, log_index`
+      )
+      .all(...params) as (Omit<StoredEvent, "args"> & { args: string })[];
+
+    return rows.map((row) => ({ ...row, args: JSON.parse(row.args) }));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
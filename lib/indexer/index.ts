@@ -0,0 +1,15 @@
+export { ReorgTooDeepError, syncEvents } from "./event-indexer";
+export type { EventSource, SyncOptions, SyncResult } from "./event-indexer";
+export {
+  DEFAULT_EVENT_STORE_DIR,
+  EventStore,
+  getEventStorePath,
+} from "./event-store";
+export type {
+  EventQuery,
+  StoredBlock,
+  StoredEvent,
+  StoredSource,
+} from "./event-store";
+export { getPirexEventSources } from "./pirex-sources";
+export type { PirexEventContracts } from "./pirex-sources";
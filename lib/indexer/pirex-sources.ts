@@ -0,0 +1,61 @@
+import {
+  PirexCvx__factory,
+  PirexFees__factory,
+  PxCvx__factory,
+  UnionPirexVault__factory,
+  WpxCvx__factory,
+} from "../../typechain-types";
+import { EventSource } from "./event-indexer";
+
+export interface PirexEventContracts {
+  pirexCvx: string;
+  pxCvx: string;
+  pirexFees: string;
+  unionPirexVault: string;
+  wpxCvx?: string;
+}
+
+// Every event of the Pirex contracts, including inherited ones (e.g. ERC20 transfers).
+// `fromBlocks` holds the deployment blocks by contract key, defaulting to `fromBlock`
+export function getPirexEventSources(
+  { pirexCvx, pxCvx, pirexFees, unionPirexVault, wpxCvx }: PirexEventContracts,
+  fromBlock: number,
+  fromBlocks: { [key: string]: number | undefined } = {}
+): EventSource[] {
+  return [
+    {
+      name: "PirexCvx",
+      address: pirexCvx,
+      contractInterface: PirexCvx__factory.createInterface(),
+      fromBlock: fromBlocks.pirexCvx ?? fromBlock,
+    },
+    {
+      name: "PxCvx",
+      address: pxCvx,
+      contractInterface: PxCvx__factory.createInterface(),
+      fromBlock: fromBlocks.pxCvx ?? fromBlock,
+    },
+    {
+      name: "PirexFees",
+      address: pirexFees,
+      contractInterface: PirexFees__factory.createInterface(),
+      fromBlock: fromBlocks.pirexFees ?? fromBlock,
+    },
+    {
+      name: "UnionPirexVault",
+      address: unionPirexVault,
+      contractInterface: UnionPirexVault__factory.createInterface(),
+      fromBlock: fromBlocks.unionPirexVault ?? fromBlock,
+    },
+    ...(wpxCvx
+      ? [
+          {
+            name: "WpxCvx",
+            address: wpxCvx,
+            contractInterface: WpxCvx__factory.createInterface(),
+            fromBlock: fromBlocks.wpxCvx ?? fromBlock,
+          },
+        ]
+      : []),
+  ];
+}
@@ -0,0 +1,6 @@
+export { evaluateInvariant, evaluateInvariants } from "./invariants";
+export type { Invariant } from "./invariants";
+export {
+  formatInvariantReport,
+  formatInvariantReportAsJUnit,
+} from "./report-formats";
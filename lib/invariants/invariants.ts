@@ -0,0 +1,67 @@
+import { BigNumber, utils } from "ethers";
+import { InvariantReport, InvariantResult } from "../types";
+
+export interface Invariant {
+  // e.g. "PirexCvx fees"
+  group: string;
+  description: string;
+  expected: unknown;
+  actual: () => Promise<unknown>;
+}
+
+// Addresses compare case-insensitively and BigNumbers by value
+function normalize(value: unknown): string {
+  if (BigNumber.isBigNumber(value)) return value.toString();
+  if (typeof value === "string") {
+    return utils.isAddress(value) ? value.toLowerCase() : value;
+  }
+
+  return JSON.stringify(value);
+}
+
+function display(value: unknown): string {
+  return BigNumber.isBigNumber(value) || typeof value === "string"
+    ? value.toString()
+    : JSON.stringify(value);
+}
+
+export async function evaluateInvariant({
+  group,
+  description,
+  expected,
+  actual,
+}: Invariant): Promise<InvariantResult> {
+  const result = { group, description, expected: display(expected) };
+
+  try {
+    const value = await actual();
+
+    return {
+      ...result,
+      passed: normalize(value) === normalize(expected),
+      actual: display(value),
+    };
+  } catch (err) {
+    return {
+      ...result,
+      passed: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+// Evaluates every invariant, in order, rather than stopping at the first failure
+export async function evaluateInvariants(
+  network: string,
+  invariants: Invariant[]
+): Promise<InvariantReport> {
+  const results: InvariantResult[] = [];
+
+  for (const invariant of invariants) {
+    results.push(await evaluateInvariant(invariant));
+  }
+
+  const passed = results.filter((result) => result.passed).length;
+
+  return { network, passed, failed: results.length - passed, results };
+}
@@ -0,0 +1,97 @@
+import { InvariantReport, InvariantResult } from "../types";
+
+function groupResults(results: InvariantResult[]): {
+  [group: string]: InvariantResult[];
+} {
+  return results.reduce<{ [group: string]: InvariantResult[] }>(
+    (memo, result) => {
+      memo[result.group] = [...(memo[result.group] || []), result];
+      return memo;
+    },
+    {}
+  );
+}
+
+function getFailureMessage({ expected, actual, error }: InvariantResult) {
+  return error
+    ? `Expected ${expected}, but evaluation failed: ${error}`
+    : `Expected ${expected}, got ${actual}`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export function formatInvariantReport(report: InvariantReport): string {
+  const groups = groupResults(report.results);
+  const lines = Object.keys(groups).reduce<string[]>(
+    (memo, group) => [
+      ...memo,
+      "",
+      group,
+      ...groups[group].map((result) =>
+        result.passed
+          ? `  PASS ${result.description}`
+          : `  FAIL ${result.description}: ${getFailureMessage(result)}`
+      ),
+    ],
+    [`State checks on ${report.network}`]
+  );
+
+  return [
+    ...lines,
+    "",
+    `${report.passed} passed, ${report.failed} failed`,
+  ].join("\n");
+}
+
+// One test suite per group, with evaluation errors reported as JUnit errors rather than failures
+export function formatInvariantReportAsJUnit(report: InvariantReport): string {
+  const groups = groupResults(report.results);
+  const errors = report.results.filter(({ error }) => error).length;
+  const suites = Object.keys(groups).map((group) => {
+    const results = groups[group];
+    const suiteErrors = results.filter(({ error }) => error).length;
+    const suiteFailures = results.filter(
+      ({ passed, error }) => !passed && !error
+    ).length;
+    const cases = results.map((result) => {
+      const testcase = `    <testcase classname="${escapeXml(
+        `${report.network}.${group}`
+      )}" name="${escapeXml(result.description)}"`;
+
+      if (result.passed) return `${testcase} />`;
+
+      const tag = result.error ? "error" : "failure";
+
+      return [
+        `${testcase}>`,
+        `      <${tag} message="${escapeXml(getFailureMessage(result))}" />`,
+        "    </testcase>",
+      ].join("\n");
+    });
+
+    return [
+      `  <testsuite name="${escapeXml(group)}" tests="${
+        results.length
+      }" failures="${suiteFailures}" errors="${suiteErrors}">`,
+      ...cases,
+      "  </testsuite>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(report.network)}" tests="${
+      report.results.length
+    }" failures="${report.failed - errors}" errors="${errors}">`,
+    ...suites,
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,97 @@
+import { promises as fs } from "fs";
+import { extname } from "path";
+import { readBalanceStream } from "./balance-stream";
+import type { NewFormat, OldFormat } from "./parse-balance-map";
+
+export interface BalanceFile {
+  balances: OldFormat | NewFormat[];
+  // 1-based line of each entry, in the order validateBalanceMap reads them
+  lines: number[];
+}
+
+// Index of the quote closing the JSON string opened at `start`
+function findStringEnd(source: string, start: number): number {
+  let idx = start + 1;
+
+  while (source[idx] !== '"') idx += source[idx] === "\\" ? 2 : 1;
+
+  return idx;
+}
+
+// 1-based line of each top-level entry of a JSON array, or of each key of a JSON object.
+// A repeated key is only counted where it first appears, since JSON.parse keeps that
+// position in the key order. Expects valid JSON
+export function getJsonEntryLines(source: string): number[] {
+  const lines: number[] = [];
+  const keys = new Set<string>();
+  let line = 1;
+  let depth = 0;
+  let isObject = false;
+  let expectEntry = false;
+
+  for (let idx = 0; idx < source.length; ++idx) {
+    const char = source[idx];
+
+    if (char === "\n") ++line;
+    if (/\s/.test(char)) continue;
+
+    if (depth === 1 && expectEntry && char !== "]" && char !== "}") {
+      expectEntry = false;
+
+      if (isObject) {
+        const end = findStringEnd(source, idx);
+        const key: string = JSON.parse(source.slice(idx, end + 1));
+
+        if (!keys.has(key)) {
+          keys.add(key);
+          lines.push(line);
+        }
+
+        idx = end;
+        continue;
+      }
+
+      lines.push(line);
+    }
+
+    // JSON strings cannot span lines, so skipping them keeps the count
+    if (char === '"') {
+      idx = findStringEnd(source, idx);
+    } else if (char === "{" || char === "[") {
+      if (depth === 0) {
+        isObject = char === "{";
+        expectEntry = true;
+      }
+
+      ++depth;
+    } else if (char === "}" || char === "]") {
+      --depth;
+    } else if (char === "," && depth === 1) {
+      expectEntry = true;
+    }
+  }
+
+  return lines;
+}
+
+// Reads the parseBalanceMap input from a JSON file (either format), or from a CSV or
+// NDJSON file as read by readBalanceStream, keeping the line of every entry
+export async function readBalanceFile(path: string): Promise<BalanceFile> {
+  if (extname(path) === ".json") {
+    const source = await fs.readFile(path, "utf8");
+
+    return { balances: JSON.parse(source), lines: getJsonEntryLines(source) };
+  }
+
+  const balances: NewFormat[] = [];
+  const lines: number[] = [];
+
+  for await (const { account, amount, reasons, line } of readBalanceStream(
+    path
+  )) {
+    balances.push({ address: account, earnings: amount, reasons });
+    lines.push(line);
+  }
+
+  return { balances, lines };
+}
@@ -0,0 +1,76 @@
+import { createReadStream } from "fs";
+import { extname } from "path";
+import { createInterface } from "readline";
+
+export type BalanceFileFormat = "csv" | "ndjson";
+
+export interface BalanceRecord {
+  account: string;
+  amount: string;
+  // Comma-separated, as in the parseBalanceMap input
+  reasons: string;
+  line: number;
+}
+
+// Reads `address,earnings[,reasons]` CSV rows (header optional) or `{ address, earnings, reasons? }` NDJSON
+// objects one line at a time, so the file never has to be loaded in full
+export async function* readBalanceStream(
+  path: string,
+  format: BalanceFileFormat = extname(path) === ".csv" ? "csv" : "ndjson"
+): AsyncGenerator<BalanceRecord> {
+  const lines = createInterface({
+    input: createReadStream(path),
+    crlfDelay: Infinity,
+  });
+  let line = 0;
+
+  for await (const raw of lines) {
+    ++line;
+
+    const content = raw.trim();
+    if (content === "") continue;
+
+    if (format === "csv") {
+      const [account, amount, ...reasons] = content
+        .split(",")
+        .map((col) => col.trim());
+
+      // Skip the header row
+      if (line === 1 && !account.startsWith("0x")) continue;
+      if (amount === undefined) {
+        throw new Error(`Missing amount on line ${line}`);
+      }
+
+      // The reasons list may be quoted, since it contains commas itself
+      yield {
+        account,
+        amount,
+        reasons: reasons.join(",").replace(/^"|"$/g, ""),
+        line,
+      };
+    } else {
+      let parsed: { address?: unknown; earnings?: unknown; reasons?: unknown };
+
+      try {
+        parsed = JSON.parse(content);
+      } catch (err) {
+        throw new Error(`Invalid JSON on line ${line}`);
+      }
+
+      if (
+        typeof parsed.address !== "string" ||
+        (typeof parsed.earnings !== "string" &&
+          typeof parsed.earnings !== "number")
+      ) {
+        throw new Error(`Missing address or earnings on line ${line}`);
+      }
+
+      yield {
+        account: parsed.address,
+        amount: parsed.earnings.toString(),
+        reasons: typeof parsed.reasons === "string" ? parsed.reasons : "",
+        line,
+      };
+    }
+  }
+}
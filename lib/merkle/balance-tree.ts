@@ -1,58 +1,118 @@
-import MerkleTree from "./merkle-tree";
-import { BigNumber, utils } from "ethers";
+import MerkleTree, { MultiProof } from "./merkle-tree";
+import { BigNumber } from "ethers";
+import {
+  DistributorEncoding,
+  LeafEncoder,
+  packedLeafEncoder,
+  sortedPairHasher,
+} from "./encoding";
+
+type Claim = { index: number | BigNumber; account: string; amount: BigNumber };
 
 export default class BalanceTree {
   private readonly tree: MerkleTree;
-  constructor(balances: { account: string; amount: BigNumber }[]) {
+  private readonly leafEncoder: LeafEncoder;
+
+  // Defaults to the Votium encoding (see distributorEncodings for the alternatives)
+  constructor(
+    balances: { account: string; amount: BigNumber }[],
+    {
+      leafEncoder = packedLeafEncoder,
+      pairHasher = sortedPairHasher,
+    }: Partial<DistributorEncoding> = {}
+  ) {
+    this.leafEncoder = leafEncoder;
     this.tree = new MerkleTree(
       balances.map(({ account, amount }, index) => {
-        return BalanceTree.toNode(index, account, amount);
-      })
+        return BalanceTree.toNode(index, account, amount, leafEncoder);
+      }),
+      pairHasher
     );
   }
 
+  // `leafCount` is only required for positional pair hashers
   public static verifyProof(
     index: number | BigNumber,
     account: string,
     amount: BigNumber,
     proof: Buffer[],
-    root: Buffer
+    root: Buffer,
+    {
+      leafEncoder = packedLeafEncoder,
+      pairHasher = sortedPairHasher,
+      leafCount,
+    }: Partial<DistributorEncoding> & { leafCount?: number } = {}
   ): boolean {
-    let pair = BalanceTree.toNode(index, account, amount);
-    for (const item of proof) {
-      pair = MerkleTree.combinedHash(pair, item);
-    }
+    return MerkleTree.verifyProof(
+      BalanceTree.toNode(index, account, amount, leafEncoder),
+      proof,
+      root,
+      pairHasher,
+      BigNumber.from(index).toNumber(),
+      leafCount
+    );
+  }
 
-    return pair.equals(root);
+  // Leaves are matched to the proof in tree order, i.e. sorted by node hash
+  public static verifyMultiProof(
+    claims: Claim[],
+    proof: Buffer[],
+    proofFlags: boolean[],
+    root: Buffer,
+    {
+      leafEncoder = packedLeafEncoder,
+      pairHasher = sortedPairHasher,
+    }: Partial<DistributorEncoding> = {}
+  ): boolean {
+    const leaves = claims
+      .map(({ index, account, amount }) =>
+        BalanceTree.toNode(index, account, amount, leafEncoder)
+      )
+      .sort(Buffer.compare)
+      .filter((leaf, idx, arr) => idx === 0 || !arr[idx - 1].equals(leaf));
+
+    return MerkleTree.verifyMultiProof(
+      { leaves, proof, proofFlags },
+      root,
+      pairHasher
+    );
   }
 
-  // keccak256(abi.encode(index, account, amount))
+  // keccak256(abi.encodePacked(index, account, amount)) unless another encoder is given
   public static toNode(
     index: number | BigNumber,
     account: string,
-    amount: BigNumber
+    amount: BigNumber,
+    leafEncoder: LeafEncoder = packedLeafEncoder
   ): Buffer {
-    return Buffer.from(
-      utils
-        .solidityKeccak256(
-          ["uint256", "address", "uint256"],
-          [index, account, amount]
-        )
-        .substr(2),
-      "hex"
-    );
+    return leafEncoder(index, account, amount);
   }
 
   public getHexRoot(): string {
     return this.tree.getHexRoot();
   }
 
+  public getLeafCount(): number {
+    return this.tree.getLeafCount();
+  }
+
   // returns the hex bytes32 values of the proof
   public getProof(
     index: number | BigNumber,
     account: string,
     amount: BigNumber
   ): string[] {
-    return this.tree.getHexProof(BalanceTree.toNode(index, account, amount));
+    return this.tree.getHexProof(
+      BalanceTree.toNode(index, account, amount, this.leafEncoder)
+    );
+  }
+
+  // returns the hex bytes32 values of the multiproof, for MerkleProof.multiProofVerify
+  public getMultiProof(claims: Claim[]): MultiProof<string> {
+    return this.tree.getHexMultiProof(
+      claims.map(({ index, account, amount }) =>
+        BalanceTree.toNode(index, account, amount, this.leafEncoder)
+      )
+    );
   }
 }
@@ -0,0 +1,102 @@
+import { BigNumber } from "ethers";
+import { DistributionDiff, MerkleDistributorInfo } from "../types";
+
+// Compares two rounds of the same token's distribution account by account
+export function diffDistributions(
+  previous: MerkleDistributorInfo,
+  next: MerkleDistributorInfo
+): DistributionDiff {
+  const diff: DistributionDiff = {
+    merkleRoot: { previous: previous.merkleRoot, next: next.merkleRoot },
+    tokenTotal: {
+      previous: previous.tokenTotal,
+      next: next.tokenTotal,
+      delta: BigNumber.from(next.tokenTotal)
+        .sub(previous.tokenTotal)
+        .toString(),
+    },
+    added: [],
+    removed: [],
+    changed: [],
+    reindexed: [],
+  };
+
+  Object.keys(previous.claims).forEach((account) => {
+    const { index, amount } = previous.claims[account];
+    const nextClaim = next.claims[account];
+
+    if (!nextClaim) {
+      diff.removed.push({ account, index, amount });
+      return;
+    }
+
+    if (!BigNumber.from(amount).eq(nextClaim.amount)) {
+      diff.changed.push({
+        account,
+        previousAmount: amount,
+        nextAmount: nextClaim.amount,
+        delta: BigNumber.from(nextClaim.amount).sub(amount).toString(),
+      });
+    }
+
+    if (index !== nextClaim.index) {
+      diff.reindexed.push({
+        account,
+        previousIndex: index,
+        nextIndex: nextClaim.index,
+      });
+    }
+  });
+
+  Object.keys(next.claims).forEach((account) => {
+    if (previous.claims[account]) return;
+
+    const { index, amount } = next.claims[account];
+
+    diff.added.push({ account, index, amount });
+  });
+
+  return diff;
+}
+
+function formatDelta(delta: string): string {
+  return delta.startsWith("-") ? delta : `+${delta}`;
+}
+
+export function formatDistributionDiff(diff: DistributionDiff): string {
+  const { merkleRoot, tokenTotal, added, removed, changed, reindexed } = diff;
+  const lines = [
+    `Merkle root: ${merkleRoot.previous} -> ${merkleRoot.next}${
+      merkleRoot.previous === merkleRoot.next ? " (unchanged)" : ""
+    }`,
+    `Token total: ${tokenTotal.previous} -> ${tokenTotal.next} (${formatDelta(
+      tokenTotal.delta
+    )})`,
+    "",
+    `Added accounts (${added.length})`,
+    ...added.map(
+      ({ account, index, amount }) => `  ${account} #${index}: ${amount}`
+    ),
+    "",
+    `Removed accounts (${removed.length})`,
+    ...removed.map(
+      ({ account, index, amount }) => `  ${account} #${index}: ${amount}`
+    ),
+    "",
+    `Changed amounts (${changed.length})`,
+    ...changed.map(
+      ({ account, previousAmount, nextAmount, delta }) =>
+        `  ${account}: ${previousAmount} -> ${nextAmount} (${formatDelta(
+          delta
+        )})`
+    ),
+    "",
+    `Reindexed accounts (${reindexed.length})`,
+    ...reindexed.map(
+      ({ account, previousIndex, nextIndex }) =>
+        `  ${account}: #${previousIndex} -> #${nextIndex}`
+    ),
+  ];
+
+  return lines.join("\n");
+}
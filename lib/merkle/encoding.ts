@@ -0,0 +1,66 @@
+import { BigNumber, utils } from "ethers";
+import { keccak256 } from "ethereumjs-util";
+
+export type LeafEncoder = (
+  index: number | BigNumber,
+  account: string,
+  amount: BigNumber
+) => Buffer;
+
+export interface PairHasher {
+  // Commutative hashers (sorted pairs) verify without knowing leaf positions
+  commutative: boolean;
+  hash(first: Buffer, second: Buffer): Buffer;
+}
+
+const LEAF_TYPES = ["uint256", "address", "uint256"];
+
+function hexToBuffer(hex: string): Buffer {
+  return Buffer.from(hex.substr(2), "hex");
+}
+
+// keccak256(abi.encodePacked(index, account, amount))
+export const packedLeafEncoder: LeafEncoder = (index, account, amount) =>
+  hexToBuffer(utils.solidityKeccak256(LEAF_TYPES, [index, account, amount]));
+
+// keccak256(abi.encode(index, account, amount))
+export const abiLeafEncoder: LeafEncoder = (index, account, amount) =>
+  hexToBuffer(
+    utils.keccak256(
+      utils.defaultAbiCoder.encode(LEAF_TYPES, [index, account, amount])
+    )
+  );
+
+// keccak256(bytes.concat(keccak256(abi.encode(index, account, amount))))
+export const doubleHashedLeafEncoder: LeafEncoder = (index, account, amount) =>
+  keccak256(abiLeafEncoder(index, account, amount));
+
+// OpenZeppelin MerkleProof: pairs are sorted before hashing
+export const sortedPairHasher: PairHasher = {
+  commutative: true,
+  hash: (first, second) =>
+    keccak256(Buffer.concat([first, second].sort(Buffer.compare))),
+};
+
+// Left/right order is taken from the node positions
+export const positionalPairHasher: PairHasher = {
+  commutative: false,
+  hash: (left, right) => keccak256(Buffer.concat([left, right])),
+};
+
+export interface DistributorEncoding {
+  leafEncoder: LeafEncoder;
+  pairHasher: PairHasher;
+}
+
+// Leaf and pair hashing used by the distributors Pirex integrates with
+export const distributorEncodings: {
+  [distributor in "votium" | "uniswap" | "openZeppelin"]: DistributorEncoding;
+} = {
+  votium: { leafEncoder: packedLeafEncoder, pairHasher: sortedPairHasher },
+  uniswap: { leafEncoder: packedLeafEncoder, pairHasher: sortedPairHasher },
+  openZeppelin: {
+    leafEncoder: doubleHashedLeafEncoder,
+    pairHasher: sortedPairHasher,
+  },
+};
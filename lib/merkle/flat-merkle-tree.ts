@@ -0,0 +1,133 @@
+import { bufferToHex } from "ethereumjs-util";
+import MerkleTree from "./merkle-tree";
+
+const NODE_SIZE = 32;
+
+// Produces the same root and proofs as MerkleTree, but stores each layer as a single
+// contiguous buffer and locates leaves by binary search instead of a hex-keyed index
+export default class FlatMerkleTree {
+  private readonly layers: Buffer[];
+
+  // `leaves` holds concatenated 32-byte leaf hashes
+  constructor(leaves: Buffer) {
+    if (leaves.length === 0) {
+      throw new Error("empty tree");
+    }
+    if (leaves.length % NODE_SIZE !== 0) {
+      throw new Error("Leaves buffer is not a multiple of 32 bytes");
+    }
+
+    this.layers = [FlatMerkleTree.sortAndDedup(leaves)];
+
+    // Get next layer until we reach the root
+    while (this.layers[this.layers.length - 1].length > NODE_SIZE) {
+      this.layers.push(
+        FlatMerkleTree.getNextLayer(this.layers[this.layers.length - 1])
+      );
+    }
+  }
+
+  get leafCount(): number {
+    return this.layers[0].length / NODE_SIZE;
+  }
+
+  getRoot(): Buffer {
+    return this.layers[this.layers.length - 1];
+  }
+
+  getHexRoot(): string {
+    return bufferToHex(this.getRoot());
+  }
+
+  // Position of the leaf within the sorted bottom layer, or -1 if absent
+  indexOf(el: Buffer): number {
+    const leaves = this.layers[0];
+    let low = 0;
+    let high = this.leafCount - 1;
+
+    while (low <= high) {
+      const mid = (low + high) >>> 1;
+      const cmp = Buffer.compare(FlatMerkleTree.nodeAt(leaves, mid), el);
+
+      if (cmp === 0) return mid;
+      if (cmp < 0) {
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return -1;
+  }
+
+  getProof(el: Buffer): Buffer[] {
+    let idx = this.indexOf(el);
+
+    if (idx === -1) {
+      throw new Error("Element does not exist in Merkle tree");
+    }
+
+    return this.layers.reduce<Buffer[]>((proof, layer) => {
+      const pairIdx = idx % 2 === 0 ? idx + 1 : idx - 1;
+
+      if (pairIdx < layer.length / NODE_SIZE) {
+        proof.push(FlatMerkleTree.nodeAt(layer, pairIdx));
+      }
+
+      idx = Math.floor(idx / 2);
+
+      return proof;
+    }, []);
+  }
+
+  getHexProof(el: Buffer): string[] {
+    return this.getProof(el).map((node) => bufferToHex(node));
+  }
+
+  private static nodeAt(layer: Buffer, idx: number): Buffer {
+    return layer.subarray(idx * NODE_SIZE, (idx + 1) * NODE_SIZE);
+  }
+
+  private static getNextLayer(layer: Buffer): Buffer {
+    const count = layer.length / NODE_SIZE;
+    const next = Buffer.alloc(Math.ceil(count / 2) * NODE_SIZE);
+
+    for (let idx = 0; idx < count; idx += 2) {
+      // Odd elements are promoted as-is, matching MerkleTree.combinedHash
+      const node =
+        idx + 1 < count
+          ? MerkleTree.combinedHash(
+              FlatMerkleTree.nodeAt(layer, idx),
+              FlatMerkleTree.nodeAt(layer, idx + 1)
+            )
+          : FlatMerkleTree.nodeAt(layer, idx);
+
+      node.copy(next, (idx / 2) * NODE_SIZE);
+    }
+
+    return next;
+  }
+
+  private static sortAndDedup(leaves: Buffer): Buffer {
+    const count = leaves.length / NODE_SIZE;
+    const views: Buffer[] = new Array(count);
+
+    for (let idx = 0; idx < count; ++idx) {
+      views[idx] = FlatMerkleTree.nodeAt(leaves, idx);
+    }
+
+    views.sort(Buffer.compare);
+
+    const sorted = Buffer.alloc(leaves.length);
+    let length = 0;
+
+    views.forEach((el, idx) => {
+      if (idx === 0 || !views[idx - 1].equals(el)) {
+        el.copy(sorted, length * NODE_SIZE);
+        ++length;
+      }
+    });
+
+    return sorted.subarray(0, length * NODE_SIZE);
+  }
+}
@@ -1,3 +1,59 @@
 export { default as MerkleTree } from "./merkle-tree";
+export type { MultiProof } from "./merkle-tree";
 export { default as BalanceTree } from "./balance-tree";
 export { parseBalanceMap } from "./parse-balance-map";
+export { DEFAULT_REASONS } from "./reasons";
+export type { ParseBalanceMapOptions } from "./parse-balance-map";
+export {
+  validateBalanceMap,
+  validateBalanceFile,
+  BalanceMapValidationError,
+} from "./validate-balance-map";
+export type {
+  BalanceMapIssue,
+  BalanceMapIssueCode,
+} from "./validate-balance-map";
+export {
+  parseMultiBalanceMap,
+  getVotiumClaimParams,
+} from "./parse-multi-balance-map";
+export { default as FlatMerkleTree } from "./flat-merkle-tree";
+export { default as StreamingDistributionBuilder } from "./streaming-distribution-builder";
+export { readBalanceStream } from "./balance-stream";
+export { getJsonEntryLines, readBalanceFile } from "./balance-file";
+export type { BalanceFile } from "./balance-file";
+export {
+  writeShardedDistribution,
+  readShardManifest,
+  readShardedClaim,
+  readShardedDistribution,
+} from "./shards";
+export {
+  diffDistributions,
+  formatDistributionDiff,
+} from "./diff-distributions";
+export {
+  packedLeafEncoder,
+  abiLeafEncoder,
+  doubleHashedLeafEncoder,
+  sortedPairHasher,
+  positionalPairHasher,
+  distributorEncodings,
+} from "./encoding";
+export type { LeafEncoder, PairHasher, DistributorEncoding } from "./encoding";
+export {
+  validateMerkleDistributorInfo,
+  validateMerkleDistributorInfoStructure,
+  validateMultiMerkleDistributorInfo,
+  assertMerkleDistributorInfo,
+  assertMultiMerkleDistributorInfo,
+} from "./validate-distributor-info";
+export type { DistributorInfoIssue } from "./validate-distributor-info";
+export { reconstructDistribution } from "./reconstruct-distribution";
+export type {
+  ReconstructDistributionOptions,
+  ReconstructionVariant,
+  SuspectLeaf,
+  SuspectLeafReason,
+  TreeReconstructionReport,
+} from "./reconstruct-distribution";
@@ -1,16 +1,29 @@
-import { bufferToHex, keccak256 } from "ethereumjs-util";
+import { bufferToHex } from "ethereumjs-util";
+import { PairHasher, sortedPairHasher } from "./encoding";
+
+export interface MultiProof<T> {
+  leaves: T[];
+  proof: T[];
+  proofFlags: boolean[];
+}
 
 export default class MerkleTree {
   private readonly elements: Buffer[];
   private readonly bufferElementPositionIndex: { [hexElement: string]: number };
   private readonly layers: Buffer[][];
+  private readonly pairHasher: PairHasher;
 
-  constructor(elements: Buffer[]) {
+  constructor(elements: Buffer[], pairHasher: PairHasher = sortedPairHasher) {
+    this.pairHasher = pairHasher;
     this.elements = [...elements];
-    // Sort elements
-    this.elements.sort(Buffer.compare);
-    // Deduplicate elements
-    this.elements = MerkleTree.bufDedup(this.elements);
+
+    // Positional trees keep the given order, since their proofs depend on it
+    if (pairHasher.commutative) {
+      // Sort elements
+      this.elements.sort(Buffer.compare);
+      // Deduplicate elements
+      this.elements = MerkleTree.bufDedup(this.elements);
+    }
 
     this.bufferElementPositionIndex = this.elements.reduce<{
       [hexElement: string]: number;
@@ -43,14 +56,18 @@ export default class MerkleTree {
     return elements.reduce<Buffer[]>((layer, el, idx, arr) => {
       if (idx % 2 === 0) {
         // Hash the current element with its pair element
-        layer.push(MerkleTree.combinedHash(el, arr[idx + 1]));
+        layer.push(MerkleTree.combinedHash(el, arr[idx + 1], this.pairHasher));
       }
 
       return layer;
     }, []);
   }
 
-  static combinedHash(first: Buffer, second: Buffer): Buffer {
+  static combinedHash(
+    first: Buffer,
+    second: Buffer,
+    pairHasher: PairHasher = sortedPairHasher
+  ): Buffer {
     if (!first) {
       return second;
     }
@@ -58,7 +75,51 @@ export default class MerkleTree {
       return first;
     }
 
-    return keccak256(MerkleTree.sortAndConcat(first, second));
+    return pairHasher.hash(first, second);
+  }
+
+  // Positional proofs also need the leaf position and the number of leaves, since
+  // promoted (unpaired) nodes do not contribute a proof element
+  static verifyProof(
+    el: Buffer,
+    proof: Buffer[],
+    root: Buffer,
+    pairHasher: PairHasher = sortedPairHasher,
+    position?: number,
+    leafCount?: number
+  ): boolean {
+    if (pairHasher.commutative) {
+      return proof
+        .reduce((node, pair) => pairHasher.hash(node, pair), el)
+        .equals(root);
+    }
+
+    if (position === undefined || leafCount === undefined) {
+      throw new Error("Positional proofs require the leaf position and count");
+    }
+
+    let node = el;
+    let idx = position;
+    let layerLength = leafCount;
+    let proofIdx = 0;
+
+    while (layerLength > 1) {
+      if ((idx % 2 === 0 ? idx + 1 : idx - 1) < layerLength) {
+        const pair = proof[proofIdx++];
+
+        if (!pair) return false;
+
+        node =
+          idx % 2 === 0
+            ? pairHasher.hash(node, pair)
+            : pairHasher.hash(pair, node);
+      }
+
+      idx = Math.floor(idx / 2);
+      layerLength = Math.ceil(layerLength / 2);
+    }
+
+    return proofIdx === proof.length && node.equals(root);
   }
 
   getRoot(): Buffer {
@@ -69,6 +130,10 @@ export default class MerkleTree {
     return bufferToHex(this.getRoot());
   }
 
+  getLeafCount(): number {
+    return this.elements.length;
+  }
+
   getProof(el: Buffer) {
     let idx = this.bufferElementPositionIndex[bufferToHex(el)];
 
@@ -95,6 +160,136 @@ export default class MerkleTree {
     return MerkleTree.bufArrToHexArr(proof);
   }
 
+  // Multiproof in the format consumed by OpenZeppelin's MerkleProof.multiProofVerify:
+  // `leaves` are returned in tree order and must be passed to the verifier as such
+  getMultiProof(els: Buffer[]): MultiProof<Buffer> {
+    if (!this.pairHasher.commutative) {
+      throw new Error("Multiproofs require a commutative pair hasher");
+    }
+
+    const positions = [
+      ...new Set(
+        els.map((el) => {
+          const idx = this.bufferElementPositionIndex[bufferToHex(el)];
+
+          if (typeof idx !== "number") {
+            throw new Error("Element does not exist in Merkle tree");
+          }
+
+          return idx;
+        })
+      ),
+    ].sort((a, b) => a - b);
+    const leafCount = positions.length;
+
+    // Known nodes are identified by the order in which the verifier queues them:
+    // leaves first (0..leafCount - 1), then each hash as it is produced
+    let known = positions.map((pos, id) => ({ pos, id }));
+    const steps: { inputs: number[]; proof?: Buffer }[] = [];
+
+    this.layers.slice(0, -1).forEach((layer) => {
+      const next: { pos: number; id: number }[] = [];
+
+      for (let k = 0; k < known.length; ++k) {
+        const { pos, id } = known[k];
+        const pairPos = pos % 2 === 0 ? pos + 1 : pos - 1;
+
+        if (pairPos >= layer.length) {
+          // Promoted without hashing
+          next.push({ pos: Math.floor(pos / 2), id });
+          continue;
+        }
+
+        if (k + 1 < known.length && known[k + 1].pos === pairPos) {
+          steps.push({ inputs: [id, known[++k].id] });
+        } else {
+          steps.push({ inputs: [id], proof: layer[pairPos] });
+        }
+
+        next.push({
+          pos: Math.floor(pos / 2),
+          id: leafCount + steps.length - 1,
+        });
+      }
+
+      known = next;
+    });
+
+    // The verifier consumes all leaves before any hash, so a leaf that is promoted past
+    // the bottom layer can only be included if it is paired before other hashes are used
+    let queuePos = 0;
+
+    steps.forEach(({ inputs }) => {
+      const expected = inputs.map((_, idx) => queuePos + idx);
+
+      if (
+        !inputs.every((input) => expected.includes(input)) ||
+        new Set(inputs).size !== inputs.length
+      ) {
+        throw new Error(
+          "Elements cannot be proven with a single multiproof (promoted leaf)"
+        );
+      }
+
+      queuePos += inputs.length;
+    });
+
+    return {
+      leaves: positions.map((pos) => this.elements[pos]),
+      proof: steps.reduce<Buffer[]>((proof, step) => {
+        if (step.proof) proof.push(step.proof);
+        return proof;
+      }, []),
+      proofFlags: steps.map(({ proof }) => !proof),
+    };
+  }
+
+  getHexMultiProof(els: Buffer[]): MultiProof<string> {
+    const { leaves, proof, proofFlags } = this.getMultiProof(els);
+
+    return {
+      leaves: MerkleTree.bufArrToHexArr(leaves),
+      proof: MerkleTree.bufArrToHexArr(proof),
+      proofFlags,
+    };
+  }
+
+  // Mirrors MerkleProof.processMultiProof, returning false where it would revert
+  static verifyMultiProof(
+    { leaves, proof, proofFlags }: MultiProof<Buffer>,
+    root: Buffer,
+    pairHasher: PairHasher = sortedPairHasher
+  ): boolean {
+    const totalHashes = proofFlags.length;
+
+    if (leaves.length + proof.length - 1 !== totalHashes) return false;
+
+    const hashes: Buffer[] = [];
+    let leafPos = 0;
+    let hashPos = 0;
+    let proofPos = 0;
+    const next = () =>
+      leafPos < leaves.length ? leaves[leafPos++] : hashes[hashPos++];
+
+    for (let i = 0; i < totalHashes; ++i) {
+      const a = next();
+      const b = proofFlags[i] ? next() : proof[proofPos++];
+
+      if (!a || !b) return false;
+
+      hashes.push(pairHasher.hash(a, b));
+    }
+
+    const computed =
+      totalHashes > 0
+        ? hashes[totalHashes - 1]
+        : leaves.length > 0
+        ? leaves[0]
+        : proof[0];
+
+    return !!computed && computed.equals(root);
+  }
+
   private static getPairElement(idx: number, layer: Buffer[]): Buffer | null {
     const pairIdx = idx % 2 === 0 ? idx + 1 : idx - 1;
 
@@ -118,8 +313,4 @@ export default class MerkleTree {
 
     return arr.map((el) => "0x" + el.toString("hex"));
   }
-
-  private static sortAndConcat(...args: Buffer[]): Buffer {
-    return Buffer.concat([...args].sort(Buffer.compare));
-  }
 }
@@ -1,15 +1,39 @@
 import { BigNumber, utils } from "ethers";
 import BalanceTree from "./balance-tree";
+import { DEFAULT_REASONS, splitReasons, validateReasons } from "./reasons";
+import {
+  BalanceMapValidationError,
+  validateBalanceMap,
+} from "./validate-balance-map";
 import { MerkleDistributorInfo } from "../types";
 
 const { isAddress, getAddress } = utils;
 
-type OldFormat = { [account: string]: number | string };
-type NewFormat = { address: string; earnings: string; reasons: string };
+export type OldFormat = { [account: string]: number | string };
+// `reasons` is a comma-separated list of entries from the reasons schema
+export type NewFormat = { address: string; earnings: string; reasons: string };
+
+export interface ParseBalanceMapOptions {
+  reasons?: string[];
+  // Report every invalid entry at once instead of throwing on the first one
+  collectIssues?: boolean;
+}
 
 export function parseBalanceMap(
-  balances: OldFormat | NewFormat[]
+  balances: OldFormat | NewFormat[],
+  {
+    reasons: reasonsSchema = DEFAULT_REASONS,
+    collectIssues = false,
+  }: ParseBalanceMapOptions = {}
 ): MerkleDistributorInfo {
+  validateReasons(reasonsSchema);
+
+  if (collectIssues) {
+    const issues = validateBalanceMap(balances, reasonsSchema);
+
+    if (issues.length !== 0) throw new BalanceMapValidationError(issues);
+  }
+
   // if balances are in an old format, process them
   const balancesInNewFormat: NewFormat[] = Array.isArray(balances)
     ? balances
@@ -36,13 +60,24 @@ export function parseBalanceMap(
     if (parsedNum.lte(0))
       throw new Error(`Invalid amount for account: ${account}`);
 
-    const flags = {
-      isSOCKS: reasons.includes("socks"),
-      isLP: reasons.includes("lp"),
-      isUser: reasons.includes("user"),
-    };
+    const accountReasons = splitReasons(reasons);
+    accountReasons.forEach((reason) => {
+      if (!reasonsSchema.includes(reason))
+        throw new Error(`Invalid reason "${reason}" for account: ${account}`);
+    });
+
+    const flags = reasonsSchema.reduce<{ [flag: string]: boolean }>(
+      (flags, reason) => {
+        flags[reason] = accountReasons.includes(reason);
+        return flags;
+      },
+      {}
+    );
 
-    memo[parsed] = { amount: parsedNum, ...(reasons === "" ? {} : { flags }) };
+    memo[parsed] = {
+      amount: parsedNum,
+      ...(accountReasons.length === 0 ? {} : { flags }),
+    };
     return memo;
   }, {});
 
@@ -80,9 +115,25 @@ export function parseBalanceMap(
     BigNumber.from(0)
   );
 
+  // Per-reason totals, where accounts with several reasons count towards each of them
+  const reasonTotals = sortedAddresses.some(
+    (address) => dataByAddress[address].flags
+  )
+    ? reasonsSchema.reduce<{ [reason: string]: string }>((memo, reason) => {
+        memo[reason] = sortedAddresses
+          .reduce<BigNumber>((total, address) => {
+            const { amount, flags } = dataByAddress[address];
+            return flags && flags[reason] ? total.add(amount) : total;
+          }, BigNumber.from(0))
+          .toString();
+        return memo;
+      }, {})
+    : undefined;
+
   return {
     merkleRoot: tree.getHexRoot(),
     tokenTotal: tokenTotal.toString(),
+    ...(reasonTotals ? { reasonTotals } : {}),
     claims,
   };
 }
@@ -0,0 +1,55 @@
+import { utils } from "ethers";
+import { ParseBalanceMapOptions, parseBalanceMap } from "./parse-balance-map";
+import { MultiMerkleDistributorInfo, VotiumClaimParam } from "../types";
+
+const { isAddress, getAddress } = utils;
+
+type BalanceMap = Parameters<typeof parseBalanceMap>[0];
+
+// Builds one distribution per reward token, in the shape consumed by the Votium MultiMerkleStash
+export function parseMultiBalanceMap(
+  balances: {
+    [token: string]: BalanceMap;
+  },
+  options: ParseBalanceMapOptions = {}
+): MultiMerkleDistributorInfo {
+  return Object.keys(balances).reduce<MultiMerkleDistributorInfo>(
+    (memo, token) => {
+      if (!isAddress(token)) {
+        throw new Error(`Found invalid token address: ${token}`);
+      }
+      const parsed = getAddress(token);
+      if (memo[parsed]) throw new Error(`Duplicate token address: ${parsed}`);
+
+      memo[parsed] = parseBalanceMap(balances[token], options);
+      return memo;
+    },
+    {}
+  );
+}
+
+// Returns the `claimParam[]` for every token the account has a claim for, in token order
+export function getVotiumClaimParams(
+  info: MultiMerkleDistributorInfo,
+  account: string
+): VotiumClaimParam[] {
+  if (!isAddress(account)) {
+    throw new Error(`Found invalid address: ${account}`);
+  }
+  const parsed = getAddress(account);
+
+  return Object.keys(info).reduce<VotiumClaimParam[]>((memo, token) => {
+    const claim = info[token].claims[parsed];
+
+    if (claim) {
+      memo.push({
+        token,
+        index: claim.index,
+        amount: claim.amount,
+        merkleProof: claim.proof,
+      });
+    }
+
+    return memo;
+  }, []);
+}
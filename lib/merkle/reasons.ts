@@ -0,0 +1,25 @@
+// Why an account is receiving a distribution from Pirex
+export const DEFAULT_REASONS = [
+  "snapshot",
+  "futures",
+  "union",
+  "developer-incentive",
+];
+
+export function splitReasons(reasons: string): string[] {
+  return reasons
+    .split(",")
+    .map((reason) => reason.trim())
+    .filter((reason) => reason !== "");
+}
+
+export function validateReasons(reasons: string[]) {
+  reasons.forEach((reason, idx) => {
+    if (!/^[a-z0-9-]+$/.test(reason)) {
+      throw new Error(`Invalid reason in schema: "${reason}"`);
+    }
+    if (reasons.indexOf(reason) !== idx) {
+      throw new Error(`Duplicate reason in schema: "${reason}"`);
+    }
+  });
+}
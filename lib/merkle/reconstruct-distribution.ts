@@ -0,0 +1,320 @@
+import { BigNumber, utils } from "ethers";
+import BalanceTree from "./balance-tree";
+import MerkleTree from "./merkle-tree";
+import {
+  abiLeafEncoder,
+  DistributorEncoding,
+  distributorEncodings,
+  packedLeafEncoder,
+  positionalPairHasher,
+  sortedPairHasher,
+} from "./encoding";
+import { DEFAULT_REASONS } from "./reasons";
+import {
+  BalanceMapValidationError,
+  validateBalanceMap,
+} from "./validate-balance-map";
+import type { NewFormat, OldFormat } from "./parse-balance-map";
+import { MerkleDistributorInfo } from "../types";
+
+const { getAddress } = utils;
+
+type Entry = { account: string; amount: BigNumber };
+type Leaf = Entry & { index: number };
+
+export type SuspectLeafReason =
+  | "missing"
+  | "unexpected"
+  | "amount-mismatch"
+  | "index-mismatch"
+  | "invalid-proof";
+
+export interface SuspectLeaf {
+  account: string;
+  reason: SuspectLeafReason;
+  message: string;
+}
+
+export interface ReconstructionVariant {
+  ordering: string;
+  encoding: string;
+  description: string;
+}
+
+export interface TreeReconstructionReport {
+  publishedRoot: string;
+  rebuiltRoot: string;
+  matches: boolean;
+  // Set when a common construction mistake reproduces the published root
+  matchedVariant?: ReconstructionVariant;
+  suspects: SuspectLeaf[];
+}
+
+export interface ReconstructDistributionOptions {
+  // The encoding the published root is expected to use (Votium by default)
+  encoding?: Partial<DistributorEncoding>;
+  // Published claims, used to pinpoint individual leaves
+  published?: MerkleDistributorInfo;
+  reasons?: string[];
+}
+
+// Ways a generator may have assigned indexes, starting with parseBalanceMap's own
+const ORDERINGS: {
+  name: string;
+  description: string;
+  toLeaves: (entries: Entry[]) => Leaf[];
+}[] = [
+  {
+    name: "checksummed-sort",
+    description: "indexes assigned by sorted checksummed address",
+    toLeaves: (entries) =>
+      [...entries]
+        .sort((a, b) => (a.account < b.account ? -1 : 1))
+        .map((entry, index) => ({ ...entry, index })),
+  },
+  {
+    name: "input-order",
+    description: "indexes assigned in input order, without sorting",
+    toLeaves: (entries) => entries.map((entry, index) => ({ ...entry, index })),
+  },
+  {
+    name: "lowercase-sort",
+    description: "indexes assigned by sorted non-checksummed address",
+    toLeaves: (entries) =>
+      [...entries]
+        .sort((a, b) =>
+          a.account.toLowerCase() < b.account.toLowerCase() ? -1 : 1
+        )
+        .map((entry, index) => ({ ...entry, index })),
+  },
+  {
+    name: "one-based-index",
+    description: "indexes starting at 1 instead of 0",
+    toLeaves: (entries) =>
+      [...entries]
+        .sort((a, b) => (a.account < b.account ? -1 : 1))
+        .map((entry, index) => ({ ...entry, index: index + 1 })),
+  },
+];
+
+const ENCODINGS: { name: string; encoding: DistributorEncoding }[] = [
+  { name: "votium", encoding: distributorEncodings.votium },
+  { name: "openZeppelin", encoding: distributorEncodings.openZeppelin },
+  {
+    name: "abi-encoded",
+    encoding: { leafEncoder: abiLeafEncoder, pairHasher: sortedPairHasher },
+  },
+  {
+    name: "positional",
+    encoding: {
+      leafEncoder: packedLeafEncoder,
+      pairHasher: positionalPairHasher,
+    },
+  },
+];
+
+function toEntries(balances: OldFormat | NewFormat[]): Entry[] {
+  return Array.isArray(balances)
+    ? balances.map(({ address, earnings }) => ({
+        account: getAddress(address),
+        amount: BigNumber.from(earnings),
+      }))
+    : Object.keys(balances).map((account) => ({
+        account: getAddress(account),
+        amount: BigNumber.from(balances[account].toString()),
+      }));
+}
+
+// Each leaf is hashed with its own index (BalanceTree would use its array position instead)
+function buildRoot(
+  leaves: Leaf[],
+  {
+    leafEncoder = packedLeafEncoder,
+    pairHasher = sortedPairHasher,
+  }: Partial<DistributorEncoding>
+) {
+  // Positional trees take leaves in index order
+  const ordered = [...leaves].sort((a, b) => a.index - b.index);
+
+  return new MerkleTree(
+    ordered.map(({ index, account, amount }) =>
+      BalanceTree.toNode(index, account, amount, leafEncoder)
+    ),
+    pairHasher
+  ).getHexRoot();
+}
+
+// Published claims whose proof does not verify against the published root
+function findInvalidProofs(
+  publishedRoot: string,
+  published: MerkleDistributorInfo,
+  encoding: Partial<DistributorEncoding>
+): SuspectLeaf[] {
+  const root = Buffer.from(publishedRoot.slice(2), "hex");
+  const leafCount = Object.keys(published.claims).length;
+
+  return Object.keys(published.claims)
+    .filter((claimant) => {
+      const { index, amount, proof } = published.claims[claimant];
+
+      return !BalanceTree.verifyProof(
+        index,
+        getAddress(claimant),
+        BigNumber.from(amount),
+        proof.map((el) => Buffer.from(el.slice(2), "hex")),
+        root,
+        { ...encoding, leafCount }
+      );
+    })
+    .map(
+      (claimant): SuspectLeaf => ({
+        account: getAddress(claimant),
+        reason: "invalid-proof",
+        message: `Published proof for index ${published.claims[claimant].index} does not verify against the root`,
+      })
+    );
+}
+
+// Compares the rebuilt leaves with the published claims
+function findSuspectLeaves(
+  leaves: Leaf[],
+  published: MerkleDistributorInfo
+): SuspectLeaf[] {
+  const suspects: SuspectLeaf[] = [];
+  const leafByAccount = leaves.reduce<{ [account: string]: Leaf }>(
+    (memo, leaf) => {
+      memo[leaf.account] = leaf;
+      return memo;
+    },
+    {}
+  );
+
+  Object.keys(published.claims).forEach((claimant) => {
+    const { index, amount } = published.claims[claimant];
+    const account = getAddress(claimant);
+    const leaf = leafByAccount[account];
+
+    if (!leaf) {
+      suspects.push({
+        account,
+        reason: "missing",
+        message: `Published with ${amount} at index ${index} but not in the balance file`,
+      });
+      return;
+    }
+    if (!leaf.amount.eq(amount)) {
+      suspects.push({
+        account,
+        reason: "amount-mismatch",
+        message: `Balance file has ${leaf.amount.toString()}, published claim has ${amount}`,
+      });
+    }
+    if (leaf.index !== index) {
+      suspects.push({
+        account,
+        reason: "index-mismatch",
+        message: `Rebuilt at index ${leaf.index}, published at index ${index}`,
+      });
+    }
+  });
+
+  leaves.forEach(({ account, amount, index }) => {
+    if (published.claims[account]) return;
+
+    suspects.push({
+      account,
+      reason: "unexpected",
+      message: `Rebuilt with ${amount.toString()} at index ${index} but not in the published claims`,
+    });
+  });
+
+  return suspects;
+}
+
+// Leaves whose index differs between the canonical tree and the variant that matched
+function findReindexedLeaves(
+  canonical: Leaf[],
+  matched: Leaf[]
+): SuspectLeaf[] {
+  const matchedIndexes = matched.reduce<{ [account: string]: number }>(
+    (memo, { account, index }) => {
+      memo[account] = index;
+      return memo;
+    },
+    {}
+  );
+
+  return canonical
+    .filter(({ account, index }) => matchedIndexes[account] !== index)
+    .map(({ account, index }) => ({
+      account,
+      reason: "index-mismatch",
+      message: `Expected at index ${index}, published tree has it at index ${matchedIndexes[account]}`,
+    }));
+}
+
+// Rebuilds the tree for a balance file and checks it against a published (e.g. on-chain) root.
+// On a mismatch, common construction mistakes are tried to explain the published root, and
+// published claims, when given, are checked leaf by leaf to single out the wrong entries.
+// Published proofs that do not verify against the root are flagged either way
+export function reconstructDistribution(
+  publishedRoot: string,
+  balances: OldFormat | NewFormat[],
+  {
+    encoding = distributorEncodings.votium,
+    published,
+    reasons = DEFAULT_REASONS,
+  }: ReconstructDistributionOptions = {}
+): TreeReconstructionReport {
+  const issues = validateBalanceMap(balances, reasons);
+
+  if (issues.length !== 0) throw new BalanceMapValidationError(issues);
+
+  const expectedRoot = publishedRoot.toLowerCase();
+  const entries = toEntries(balances);
+  const canonical = ORDERINGS[0].toLeaves(entries);
+  const rebuiltRoot = buildRoot(canonical, encoding);
+  const report: TreeReconstructionReport = {
+    publishedRoot,
+    rebuiltRoot,
+    matches: rebuiltRoot === expectedRoot,
+    suspects: [],
+  };
+
+  const invalidProofs = published
+    ? findInvalidProofs(publishedRoot, published, encoding)
+    : [];
+
+  if (report.matches) {
+    report.suspects = invalidProofs;
+    return report;
+  }
+
+  ORDERINGS.some((ordering) => {
+    const leaves = ordering.toLeaves(entries);
+
+    return ENCODINGS.some(({ name, encoding: variantEncoding }) => {
+      if (buildRoot(leaves, variantEncoding) !== expectedRoot) return false;
+
+      report.matchedVariant = {
+        ordering: ordering.name,
+        encoding: name,
+        description: `${ordering.description}, ${name} encoding`,
+      };
+      report.suspects = [
+        ...invalidProofs,
+        ...findReindexedLeaves(canonical, leaves),
+      ];
+      return true;
+    });
+  });
+
+  if (!report.matchedVariant && published) {
+    report.suspects = [
+      ...invalidProofs,
+      ...findSuspectLeaves(canonical, published),
+    ];
+  }
+
+  return report;
+}
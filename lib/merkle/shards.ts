@@ -0,0 +1,150 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import { utils } from "ethers";
+import { MerkleDistributorInfo, ShardedDistributionManifest } from "../types";
+
+const { isAddress, getAddress } = utils;
+
+type Claims = MerkleDistributorInfo["claims"];
+
+export const SHARD_MANIFEST_FILE = "index.json";
+export const DEFAULT_SHARD_PREFIX_LENGTH = 2;
+
+// Shards are keyed by the lowercase hex characters following `0x`
+export function getShardPrefix(account: string, prefixLength: number): string {
+  return account.slice(2, 2 + prefixLength).toLowerCase();
+}
+
+export function getShardFileName(prefix: string): string {
+  return `${prefix}.json`;
+}
+
+export async function writeShard(
+  dir: string,
+  prefix: string,
+  claims: Claims
+): Promise<ShardedDistributionManifest["shards"][string]> {
+  const file = getShardFileName(prefix);
+
+  await fs.writeFile(join(dir, file), JSON.stringify(claims));
+
+  return { file, claimCount: Object.keys(claims).length };
+}
+
+export async function writeShardManifest(
+  dir: string,
+  manifest: ShardedDistributionManifest
+): Promise<void> {
+  await fs.writeFile(
+    join(dir, SHARD_MANIFEST_FILE),
+    JSON.stringify(manifest, null, 2)
+  );
+}
+
+// Splits an in-memory distribution into the same on-disk format as StreamingDistributionBuilder
+export async function writeShardedDistribution(
+  info: MerkleDistributorInfo,
+  dir: string,
+  prefixLength: number = DEFAULT_SHARD_PREFIX_LENGTH
+): Promise<ShardedDistributionManifest> {
+  const shardClaims = Object.keys(info.claims).reduce<{
+    [prefix: string]: Claims;
+  }>((memo, account) => {
+    const prefix = getShardPrefix(account, prefixLength);
+
+    memo[prefix] = memo[prefix] || {};
+    memo[prefix][account] = info.claims[account];
+    return memo;
+  }, {});
+
+  await fs.mkdir(dir, { recursive: true });
+
+  const manifest: ShardedDistributionManifest = {
+    merkleRoot: info.merkleRoot,
+    tokenTotal: info.tokenTotal,
+    ...(info.reasonTotals ? { reasonTotals: info.reasonTotals } : {}),
+    claimCount: Object.keys(info.claims).length,
+    prefixLength,
+    shards: {},
+  };
+
+  for (const prefix of Object.keys(shardClaims).sort()) {
+    manifest.shards[prefix] = await writeShard(
+      dir,
+      prefix,
+      shardClaims[prefix]
+    );
+  }
+
+  await writeShardManifest(dir, manifest);
+
+  return manifest;
+}
+
+export async function readShardManifest(
+  dir: string
+): Promise<ShardedDistributionManifest> {
+  return JSON.parse(
+    await fs.readFile(join(dir, SHARD_MANIFEST_FILE), "utf8")
+  ) as ShardedDistributionManifest;
+}
+
+// Loads only the shard holding `account`; returns null if the account has no claim
+export async function readShardedClaim(
+  dir: string,
+  account: string,
+  manifest?: ShardedDistributionManifest
+): Promise<Claims[string] | null> {
+  if (!isAddress(account)) {
+    throw new Error(`Found invalid address: ${account}`);
+  }
+  const parsed = getAddress(account);
+  const { prefixLength, shards } = manifest || (await readShardManifest(dir));
+  const shard = shards[getShardPrefix(parsed, prefixLength)];
+
+  if (!shard) return null;
+
+  const claims = JSON.parse(
+    await fs.readFile(join(dir, shard.file), "utf8")
+  ) as Claims;
+
+  return claims[parsed] || null;
+}
+
+// Reassembles the full distribution, e.g. for audits of a published shard set
+export async function readShardedDistribution(
+  dir: string
+): Promise<MerkleDistributorInfo> {
+  const { merkleRoot, tokenTotal, reasonTotals, claimCount, shards } =
+    await readShardManifest(dir);
+  const claims: Claims = {};
+
+  for (const prefix of Object.keys(shards)) {
+    const shardClaims = JSON.parse(
+      await fs.readFile(join(dir, shards[prefix].file), "utf8")
+    ) as Claims;
+
+    if (Object.keys(shardClaims).length !== shards[prefix].claimCount) {
+      throw new Error(`Claim count mismatch in shard: ${prefix}`);
+    }
+
+    Object.assign(claims, shardClaims);
+  }
+
+  if (Object.keys(claims).length !== claimCount) {
+    throw new Error("Claim count mismatch in manifest");
+  }
+
+  // Restore the sorted address order produced by parseBalanceMap
+  return {
+    merkleRoot,
+    tokenTotal,
+    ...(reasonTotals ? { reasonTotals } : {}),
+    claims: Object.keys(claims)
+      .sort()
+      .reduce<Claims>((memo, account) => {
+        memo[account] = claims[account];
+        return memo;
+      }, {}),
+  };
+}
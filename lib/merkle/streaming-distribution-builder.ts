@@ -0,0 +1,190 @@
+import { promises as fs } from "fs";
+import { BigNumber, BigNumberish, constants, utils } from "ethers";
+import { keccak256 } from "ethereumjs-util";
+import FlatMerkleTree from "./flat-merkle-tree";
+import { BalanceFileFormat, readBalanceStream } from "./balance-stream";
+import {
+  DEFAULT_SHARD_PREFIX_LENGTH,
+  getShardPrefix,
+  writeShard,
+  writeShardManifest,
+} from "./shards";
+import { MerkleDistributorInfo, ShardedDistributionManifest } from "../types";
+
+const { isAddress, getAddress, hexZeroPad } = utils;
+
+const WORD_SIZE = 32;
+
+interface BuiltDistribution {
+  order: Uint32Array;
+  leaves: Buffer;
+  tree: FlatMerkleTree;
+}
+
+// Builds the same distribution as parseBalanceMap for balance files too large to hold as
+// objects: amounts live in one growable buffer, and proofs are only materialized per shard
+export default class StreamingDistributionBuilder {
+  private readonly accounts: string[] = [];
+  private amounts: Buffer = Buffer.alloc(WORD_SIZE * 1024);
+  private tokenTotal: BigNumber = BigNumber.from(0);
+  private built?: BuiltDistribution;
+
+  get claimCount(): number {
+    return this.accounts.length;
+  }
+
+  add(account: string, amount: BigNumberish): void {
+    if (this.built) throw new Error("Distribution has already been built");
+    if (!isAddress(account)) {
+      throw new Error(`Found invalid address: ${account}`);
+    }
+    const parsedNum = BigNumber.from(amount);
+    if (parsedNum.lte(0) || parsedNum.gt(constants.MaxUint256))
+      throw new Error(`Invalid amount for account: ${account}`);
+
+    const offset = this.accounts.length * WORD_SIZE;
+
+    if (offset + WORD_SIZE > this.amounts.length) {
+      const amounts = Buffer.alloc(this.amounts.length * 2);
+
+      this.amounts.copy(amounts);
+      this.amounts = amounts;
+    }
+
+    Buffer.from(
+      hexZeroPad(parsedNum.toHexString(), WORD_SIZE).slice(2),
+      "hex"
+    ).copy(this.amounts, offset);
+
+    this.accounts.push(getAddress(account));
+    this.tokenTotal = this.tokenTotal.add(parsedNum);
+  }
+
+  async addFile(path: string, format?: BalanceFileFormat): Promise<void> {
+    for await (const { account, amount, line } of readBalanceStream(
+      path,
+      format
+    )) {
+      try {
+        this.add(account, amount);
+      } catch (err) {
+        throw new Error(`Line ${line}: ${(err as Error).message}`);
+      }
+    }
+  }
+
+  build(): Omit<MerkleDistributorInfo, "claims"> {
+    const { tree } = this.getBuilt();
+
+    return {
+      merkleRoot: tree.getHexRoot(),
+      tokenTotal: this.tokenTotal.toString(),
+    };
+  }
+
+  // Writes one claims file per address prefix plus an index manifest
+  async writeShards(
+    dir: string,
+    prefixLength: number = DEFAULT_SHARD_PREFIX_LENGTH
+  ): Promise<ShardedDistributionManifest> {
+    const { merkleRoot, tokenTotal } = this.build();
+    const { order } = this.getBuilt();
+    const shardClaims = new Map<string, number[]>();
+
+    order.forEach((accountIdx, claimIdx) => {
+      const prefix = getShardPrefix(this.accounts[accountIdx], prefixLength);
+      const claims = shardClaims.get(prefix);
+
+      if (claims) {
+        claims.push(claimIdx);
+      } else {
+        shardClaims.set(prefix, [claimIdx]);
+      }
+    });
+
+    await fs.mkdir(dir, { recursive: true });
+
+    const manifest: ShardedDistributionManifest = {
+      merkleRoot,
+      tokenTotal,
+      claimCount: order.length,
+      prefixLength,
+      shards: {},
+    };
+
+    for (const prefix of [...shardClaims.keys()].sort()) {
+      manifest.shards[prefix] = await writeShard(
+        dir,
+        prefix,
+        (shardClaims.get(prefix) as number[]).reduce<
+          MerkleDistributorInfo["claims"]
+        >((memo, claimIdx) => {
+          memo[this.accounts[order[claimIdx]]] = this.getClaim(claimIdx);
+          return memo;
+        }, {})
+      );
+    }
+
+    await writeShardManifest(dir, manifest);
+
+    return manifest;
+  }
+
+  // Sorts accounts and hashes leaves once; the result is reused by every shard write
+  private getBuilt(): BuiltDistribution {
+    if (!this.built) {
+      const { accounts } = this;
+
+      // Claim indexes follow the sorted (checksummed) address order, as in parseBalanceMap
+      const order = new Uint32Array(accounts.length).map((_, idx) => idx);
+
+      order.sort((a, b) =>
+        accounts[a] < accounts[b] ? -1 : accounts[a] > accounts[b] ? 1 : 0
+      );
+
+      const leaves = Buffer.alloc(order.length * WORD_SIZE);
+      const index = Buffer.alloc(WORD_SIZE);
+
+      order.forEach((accountIdx, claimIdx) => {
+        const account = accounts[accountIdx];
+
+        if (claimIdx > 0 && accounts[order[claimIdx - 1]] === account) {
+          throw new Error(`Duplicate address: ${account}`);
+        }
+
+        // keccak256(abi.encodePacked(index, account, amount))
+        index.writeUInt32BE(claimIdx, WORD_SIZE - 4);
+        keccak256(
+          Buffer.concat([
+            index,
+            Buffer.from(account.slice(2), "hex"),
+            this.getAmount(accountIdx),
+          ])
+        ).copy(leaves, claimIdx * WORD_SIZE);
+      });
+
+      this.built = { order, leaves, tree: new FlatMerkleTree(leaves) };
+    }
+
+    return this.built;
+  }
+
+  private getAmount(accountIdx: number): Buffer {
+    return this.amounts.subarray(
+      accountIdx * WORD_SIZE,
+      (accountIdx + 1) * WORD_SIZE
+    );
+  }
+
+  private getClaim(claimIdx: number): MerkleDistributorInfo["claims"][string] {
+    const { order, leaves, tree } = this.getBuilt();
+
+    return {
+      index: claimIdx,
+      amount: BigNumber.from(this.getAmount(order[claimIdx])).toString(),
+      proof: tree.getHexProof(
+        leaves.subarray(claimIdx * WORD_SIZE, (claimIdx + 1) * WORD_SIZE)
+      ),
+    };
+  }
+}
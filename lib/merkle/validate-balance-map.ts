@@ -0,0 +1,164 @@
+import { BigNumber, constants, utils } from "ethers";
+import { readBalanceFile } from "./balance-file";
+import { DEFAULT_REASONS, splitReasons } from "./reasons";
+import type { NewFormat, OldFormat } from "./parse-balance-map";
+
+const { getAddress } = utils;
+
+export type BalanceMapIssueCode =
+  | "invalid-address"
+  | "checksum-mismatch"
+  | "zero-address"
+  | "duplicate-address"
+  | "invalid-amount"
+  | "decimal-amount"
+  | "scientific-notation-amount"
+  | "non-positive-amount"
+  | "amount-overflow"
+  | "invalid-reason";
+
+export interface BalanceMapIssue {
+  // 0-based position of the entry in the array, or in the key order of an object
+  index: number;
+  // 1-based line of the entry in its file, when read with validateBalanceFile
+  line?: number;
+  account: string;
+  code: BalanceMapIssueCode;
+  message: string;
+}
+
+export class BalanceMapValidationError extends Error {
+  readonly issues: BalanceMapIssue[];
+
+  constructor(issues: BalanceMapIssue[]) {
+    super(
+      [
+        `Found ${issues.length} invalid balance entries`,
+        ...issues.map(({ index, line, message }) =>
+          line === undefined
+            ? `  entry ${index}: ${message}`
+            : `  line ${line} (entry ${index}): ${message}`
+        ),
+      ].join("\n")
+    );
+    this.name = "BalanceMapValidationError";
+    this.issues = issues;
+  }
+}
+
+function getAmountIssue(
+  earnings: string
+): Pick<BalanceMapIssue, "code" | "message"> | null {
+  const amount = earnings.trim();
+
+  if (/^-?\d*\.\d+$/.test(amount)) {
+    return { code: "decimal-amount", message: `Decimal amount: ${earnings}` };
+  }
+  if (/^-?\d+(\.\d+)?e[+-]?\d+$/i.test(amount)) {
+    return {
+      code: "scientific-notation-amount",
+      message: `Scientific notation amount: ${earnings}`,
+    };
+  }
+  if (!/^-?\d+$/.test(amount) && !/^0x[0-9a-f]+$/i.test(amount)) {
+    return { code: "invalid-amount", message: `Invalid amount: ${earnings}` };
+  }
+
+  const parsed = BigNumber.from(amount);
+
+  if (parsed.lte(0)) {
+    return {
+      code: "non-positive-amount",
+      message: `Non-positive amount: ${earnings}`,
+    };
+  }
+  if (parsed.gt(constants.MaxUint256)) {
+    return {
+      code: "amount-overflow",
+      message: `Amount exceeds uint256: ${earnings}`,
+    };
+  }
+
+  return null;
+}
+
+// Collects every problem in a balance map instead of stopping at the first one.
+// `lines` holds the source line of each entry, to report alongside its index
+export function validateBalanceMap(
+  balances: OldFormat | NewFormat[],
+  reasonsSchema: string[] = DEFAULT_REASONS,
+  lines?: number[]
+): BalanceMapIssue[] {
+  const entries: NewFormat[] = Array.isArray(balances)
+    ? balances
+    : Object.keys(balances).map((account) => ({
+        address: account,
+        // Numbers such as 1e21 stringify in scientific notation and are flagged as such
+        earnings: balances[account].toString(),
+        reasons: "",
+      }));
+  const issues: BalanceMapIssue[] = [];
+  const indexByAddress: { [address: string]: number } = {};
+
+  entries.forEach(({ address: account, earnings, reasons }, index) => {
+    const report = (code: BalanceMapIssueCode, message: string) =>
+      issues.push({
+        index,
+        ...(lines ? { line: lines[index] } : {}),
+        account,
+        code,
+        message,
+      });
+
+    if (!/^0x[0-9a-fA-F]{40}$/.test(account)) {
+      report("invalid-address", `Invalid address: ${account}`);
+    } else {
+      const parsed = getAddress(account.toLowerCase());
+
+      // All-lowercase and all-uppercase addresses carry no checksum
+      if (
+        account.slice(2) !== account.slice(2).toLowerCase() &&
+        account.slice(2) !== account.slice(2).toUpperCase() &&
+        account !== parsed
+      ) {
+        report(
+          "checksum-mismatch",
+          `Checksum mismatch: ${account} (expected ${parsed})`
+        );
+      }
+      if (parsed === constants.AddressZero) {
+        report("zero-address", "Zero address");
+      }
+      if (indexByAddress[parsed] !== undefined) {
+        report(
+          "duplicate-address",
+          `Duplicate address: ${parsed} (first seen at entry ${indexByAddress[parsed]})`
+        );
+      } else {
+        indexByAddress[parsed] = index;
+      }
+    }
+
+    const amountIssue = getAmountIssue(String(earnings));
+
+    if (amountIssue) report(amountIssue.code, amountIssue.message);
+
+    splitReasons(reasons || "").forEach((reason) => {
+      if (!reasonsSchema.includes(reason)) {
+        report("invalid-reason", `Invalid reason: "${reason}"`);
+      }
+    });
+  });
+
+  return issues;
+}
+
+// Validates a balance JSON, CSV or NDJSON file, reporting the line of every issue
+export async function validateBalanceFile(
+  path: string,
+  reasonsSchema: string[] = DEFAULT_REASONS
+): Promise<BalanceMapIssue[]> {
+  const { balances, lines } = await readBalanceFile(path);
+
+  return validateBalanceMap(balances, reasonsSchema, lines);
+}
@@ -0,0 +1,241 @@
+import { BigNumber, utils } from "ethers";
+import BalanceTree from "./balance-tree";
+import { DistributorEncoding } from "./encoding";
+import { MerkleDistributorInfo, MultiMerkleDistributorInfo } from "../types";
+
+const { getAddress } = utils;
+
+export interface DistributorInfoIssue {
+  // e.g. `claims.0xabc….proof[1]`
+  path: string;
+  message: string;
+}
+
+const BYTES32_REGEX = /^0x[0-9a-fA-F]{64}$/;
+const UINT_REGEX = /^\d+$/;
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isChecksummedAddress(value: string): boolean {
+  try {
+    return getAddress(value) === value;
+  } catch (err) {
+    return false;
+  }
+}
+
+function toBuffer(hex: string): Buffer {
+  return Buffer.from(hex.slice(2), "hex");
+}
+
+// Adds the structural issues to `issues`, returning whether the proofs can be verified
+function checkStructure(
+  value: unknown,
+  issues: DistributorInfoIssue[],
+  pathPrefix: string
+): value is MerkleDistributorInfo {
+  const report = (path: string, message: string) =>
+    issues.push({ path: `${pathPrefix}${path}`, message });
+
+  if (!isObject(value)) {
+    report("", "Expected an object");
+    return false;
+  }
+
+  const { merkleRoot, tokenTotal, claims } = value;
+
+  if (typeof merkleRoot !== "string" || !BYTES32_REGEX.test(merkleRoot)) {
+    report("merkleRoot", "Expected a 0x-prefixed bytes32 hex string");
+  }
+  if (typeof tokenTotal !== "string" || !UINT_REGEX.test(tokenTotal)) {
+    report("tokenTotal", "Expected a decimal integer string");
+  }
+  if (!isObject(claims)) {
+    report("claims", "Expected an object");
+    return false;
+  }
+
+  const accounts = Object.keys(claims);
+  const accountByIndex: { [index: number]: string } = {};
+  let claimsTotal = BigNumber.from(0);
+  let structurallyValid = issues.length === 0;
+
+  accounts.forEach((account) => {
+    const claim = claims[account];
+    const path = `claims.${account}`;
+    const issueCount = issues.length;
+
+    if (!isChecksummedAddress(account)) {
+      report(path, "Expected a checksummed address");
+    }
+    if (!isObject(claim)) {
+      report(path, "Expected an object");
+      structurallyValid = false;
+      return;
+    }
+
+    const { index, amount, proof, flags } = claim;
+
+    if (
+      typeof index !== "number" ||
+      !Number.isSafeInteger(index) ||
+      index < 0
+    ) {
+      report(`${path}.index`, "Expected a non-negative integer");
+    } else if (accountByIndex[index] !== undefined) {
+      report(
+        `${path}.index`,
+        `Index ${index} is also used by ${accountByIndex[index]}`
+      );
+    } else {
+      accountByIndex[index] = account;
+    }
+
+    if (typeof amount !== "string" || !UINT_REGEX.test(amount)) {
+      report(`${path}.amount`, "Expected a decimal integer string");
+    } else if (BigNumber.from(amount).isZero()) {
+      report(`${path}.amount`, "Expected a positive amount");
+    } else {
+      claimsTotal = claimsTotal.add(amount);
+    }
+
+    if (!Array.isArray(proof)) {
+      report(`${path}.proof`, "Expected an array");
+    } else {
+      proof.forEach((el, idx) => {
+        if (typeof el !== "string" || !BYTES32_REGEX.test(el)) {
+          report(
+            `${path}.proof[${idx}]`,
+            "Expected a 0x-prefixed bytes32 hex string"
+          );
+        }
+      });
+    }
+
+    if (
+      flags !== undefined &&
+      (!isObject(flags) ||
+        Object.values(flags).some((flag) => typeof flag !== "boolean"))
+    ) {
+      report(`${path}.flags`, "Expected an object of booleans");
+    }
+
+    if (issues.length !== issueCount) structurallyValid = false;
+  });
+
+  if (
+    typeof tokenTotal === "string" &&
+    UINT_REGEX.test(tokenTotal) &&
+    !claimsTotal.eq(tokenTotal)
+  ) {
+    report(
+      "tokenTotal",
+      `Claim amounts sum to ${claimsTotal.toString()}, not ${tokenTotal}`
+    );
+  }
+
+  return structurallyValid;
+}
+
+// Checks a loaded distribution JSON file against MerkleDistributorInfo, without verifying proofs
+export function validateMerkleDistributorInfoStructure(
+  value: unknown,
+  pathPrefix = ""
+): DistributorInfoIssue[] {
+  const issues: DistributorInfoIssue[] = [];
+
+  checkStructure(value, issues, pathPrefix);
+
+  return issues;
+}
+
+// Checks a loaded distribution JSON file against MerkleDistributorInfo, then verifies every proof
+export function validateMerkleDistributorInfo(
+  value: unknown,
+  encoding: Partial<DistributorEncoding> = {},
+  pathPrefix = ""
+): DistributorInfoIssue[] {
+  const issues: DistributorInfoIssue[] = [];
+
+  // Proofs are only checked once the file is structurally sound
+  if (!checkStructure(value, issues, pathPrefix)) return issues;
+
+  const root = toBuffer(value.merkleRoot);
+  const accounts = Object.keys(value.claims);
+
+  accounts.forEach((account) => {
+    const { index, amount, proof } = value.claims[account];
+
+    if (
+      !BalanceTree.verifyProof(
+        index,
+        account,
+        BigNumber.from(amount),
+        proof.map(toBuffer),
+        root,
+        { ...encoding, leafCount: accounts.length }
+      )
+    ) {
+      issues.push({
+        path: `${pathPrefix}claims.${account}.proof`,
+        message: "Proof does not verify against merkleRoot",
+      });
+    }
+  });
+
+  return issues;
+}
+
+export function validateMultiMerkleDistributorInfo(
+  value: unknown,
+  encoding: Partial<DistributorEncoding> = {}
+): DistributorInfoIssue[] {
+  if (!isObject(value)) {
+    return [{ path: "", message: "Expected an object" }];
+  }
+
+  return Object.keys(value).reduce<DistributorInfoIssue[]>((issues, token) => {
+    if (!isChecksummedAddress(token)) {
+      issues.push({ path: token, message: "Expected a checksummed address" });
+    }
+
+    return [
+      ...issues,
+      ...validateMerkleDistributorInfo(value[token], encoding, `${token}.`),
+    ];
+  }, []);
+}
+
+export function assertMerkleDistributorInfo(
+  value: unknown,
+  encoding?: Partial<DistributorEncoding>
+): asserts value is MerkleDistributorInfo {
+  const issues = validateMerkleDistributorInfo(value, encoding);
+
+  if (issues.length !== 0) {
+    throw new Error(
+      [
+        "Invalid MerkleDistributorInfo",
+        ...issues.map(({ path, message }) => `  ${path}: ${message}`),
+      ].join("\n")
+    );
+  }
+}
+
+export function assertMultiMerkleDistributorInfo(
+  value: unknown,
+  encoding?: Partial<DistributorEncoding>
+): asserts value is MultiMerkleDistributorInfo {
+  const issues = validateMultiMerkleDistributorInfo(value, encoding);
+
+  if (issues.length !== 0) {
+    throw new Error(
+      [
+        "Invalid MultiMerkleDistributorInfo",
+        ...issues.map(({ path, message }) => `  ${path}: ${message}`),
+      ].join("\n")
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { Contract, Signer } from "ethers";
+
+// A single admin transaction, described independently of who sends it
+export interface ContractCall {
+  // e.g. "PirexCvx"
+  label: string;
+  contract: Contract;
+  method: string;
+  args: unknown[];
+  // Shown alongside the decoded call, e.g. the enum member behind a numeric argument
+  note?: string;
+  // The state the call changes, read before and after it in simulations
+  watch?: {
+    name: string;
+    read: () => Promise<unknown>;
+  };
+}
+
+export function encodeContractCall({
+  contract,
+  method,
+  args,
+}: ContractCall): string {
+  return contract.interface.encodeFunctionData(method, args);
+}
+
+// e.g. `PirexCvx(0x35A3…).setFee(f: 1, fee: 50000)`
+export function formatContractCall(call: ContractCall): string {
+  const { label, contract, method, args, note } = call;
+  const { inputs } = contract.interface.getFunction(method);
+  const decoded = contract.interface.decodeFunctionData(
+    method,
+    encodeContractCall(call)
+  );
+  const params = inputs
+    .map((input, idx) => `${input.name || idx}: ${decoded[idx].toString()}`)
+    .join(", ");
+
+  return `${label}(${contract.address}).${method}(${params})${
+    note ? ` // ${note}` : ""
+  }`;
+}
+
+// Sends the calls one at a time, waiting for each to be mined before the next
+export async function sendContractCalls(
+  calls: ContractCall[],
+  signer: Signer,
+  log: (message: string) => void = console.log
+): Promise<void> {
+  for (const call of calls) {
+    const { contract, method, args } = call;
+
+    log(formatContractCall(call));
+    await (await contract.connect(signer)[method](...args)).wait(1);
+  }
+}
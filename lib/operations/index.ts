@@ -0,0 +1,18 @@
+export {
+  encodeContractCall,
+  formatContractCall,
+  sendContractCalls,
+} from "./contract-call";
+export type { ContractCall } from "./contract-call";
+export {
+  calculateSafeBatchChecksum,
+  createSafeTransactionBatch,
+  formatSafeBatchPreview,
+} from "./safe-batch";
+export {
+  SimulationRevertError,
+  formatSimulatedCall,
+  getRevertReason,
+  simulateContractCalls,
+} from "./simulate-contract-calls";
+export type { SimulatedCall } from "./simulate-contract-calls";
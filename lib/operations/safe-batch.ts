@@ -0,0 +1,112 @@
+import { utils } from "ethers";
+import {
+  ContractCall,
+  encodeContractCall,
+  formatContractCall,
+} from "./contract-call";
+import { SafeTransactionBatch } from "../types";
+
+const TX_BUILDER_VERSION = "1.10.0";
+
+// Mirrors the Transaction Builder's serialization: sorted keys, with undefined as null
+function serialize(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(serialize).join(",")}]`;
+  if (typeof value === "object" && value !== null) {
+    const object = value as { [key: string]: unknown };
+    const keys = Object.keys(object).sort();
+
+    return `{${JSON.stringify(keys)}${keys
+      .map((key) => `${serialize(object[key])},`)
+      .join("")}}`;
+  }
+
+  return JSON.stringify(value === undefined ? null : value);
+}
+
+// The checksum the Transaction Builder verifies on import (computed without the batch name)
+export function calculateSafeBatchChecksum(
+  batch: SafeTransactionBatch
+): string {
+  const meta: { [key: string]: unknown } = { ...batch.meta, name: null };
+
+  delete meta.checksum;
+
+  return utils.keccak256(utils.toUtf8Bytes(serialize({ ...batch, meta })));
+}
+
+function toInputValue(value: unknown): string {
+  return Array.isArray(value) ? JSON.stringify(value) : String(value);
+}
+
+export function createSafeTransactionBatch(
+  calls: ContractCall[],
+  {
+    chainId,
+    safeAddress,
+    name,
+    description = "",
+    createdAt = Date.now(),
+  }: {
+    chainId: number;
+    safeAddress: string;
+    name: string;
+    description?: string;
+    // Milliseconds since the epoch, as the Transaction Builder records it
+    createdAt?: number;
+  }
+): SafeTransactionBatch {
+  const batch: SafeTransactionBatch = {
+    version: "1.0",
+    chainId: chainId.toString(),
+    createdAt,
+    meta: {
+      name,
+      description,
+      txBuilderVersion: TX_BUILDER_VERSION,
+      createdFromSafeAddress: safeAddress,
+      createdFromOwnerAddress: "",
+    },
+    transactions: calls.map(({ contract, method, args }) => {
+      const { inputs, payable } = contract.interface.getFunction(method);
+
+      return {
+        to: contract.address,
+        value: "0",
+        data: null,
+        contractMethod: {
+          inputs: inputs.map(({ name, type }) => ({
+            internalType: type,
+            name,
+            type,
+          })),
+          name: method,
+          payable,
+        },
+        contractInputsValues: inputs.reduce<{ [input: string]: string }>(
+          (memo, { name }, idx) => {
+            memo[name] = toInputValue(args[idx]);
+            return memo;
+          },
+          {}
+        ),
+      };
+    }),
+  };
+
+  batch.meta.checksum = calculateSafeBatchChecksum(batch);
+
+  return batch;
+}
+
+// Numbered, human-readable version of the batch for review before proposing it
+export function formatSafeBatchPreview(calls: ContractCall[]): string {
+  return calls
+    .map((call, idx) =>
+      [
+        `${idx + 1}. ${formatContractCall(call)}`,
+        `   to: ${call.contract.address}`,
+        `   data: ${encodeContractCall(call)}`,
+      ].join("\n")
+    )
+    .join("\n");
+}
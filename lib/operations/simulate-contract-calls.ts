@@ -0,0 +1,154 @@
+import { BigNumber, Contract, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ContractCall, formatContractCall } from "./contract-call";
+
+export interface SimulatedCall {
+  call: string;
+  watched?: string;
+  before?: string;
+  after?: string;
+  gasUsed: string;
+}
+
+export class SimulationRevertError extends Error {
+  readonly step: number;
+  readonly call: string;
+  readonly reason: string;
+
+  constructor(step: number, call: string, reason: string) {
+    super(`Step ${step} would revert: ${call}\n  ${reason}`);
+    this.name = "SimulationRevertError";
+    this.step = step;
+    this.call = call;
+    this.reason = reason;
+  }
+}
+
+function display(value: unknown): string {
+  return BigNumber.isBigNumber(value) || typeof value !== "object"
+    ? String(value)
+    : JSON.stringify(value);
+}
+
+// Hardhat nests the revert data differently depending on how the call failed
+function findRevertData(err: unknown): string | undefined {
+  let current = err as { data?: unknown; error?: unknown } | undefined;
+
+  while (current) {
+    if (typeof current.data === "string" && current.data.startsWith("0x")) {
+      return current.data;
+    }
+
+    current = current.error as typeof current;
+  }
+}
+
+// Decodes custom errors (e.g. `InvalidFee()`) and revert strings where the ABI allows it
+export function getRevertReason(contract: Contract, err: unknown): string {
+  const data = findRevertData(err);
+
+  if (data && data.length >= 10) {
+    try {
+      const { name, args } = contract.interface.parseError(data);
+
+      return `${name}(${args.map(display).join(", ")})`;
+    } catch (parseErr) {
+      // Error(string) is not part of the contract ABI
+      if (data.startsWith("0x08c379a0")) {
+        return utils.defaultAbiCoder
+          .decode(["string"], utils.hexDataSlice(data, 4))[0]
+          .toString();
+      }
+    }
+  }
+
+  return err instanceof Error ? err.message : String(err);
+}
+
+export function formatSimulatedCall(
+  { call, watched, before, after, gasUsed }: SimulatedCall,
+  step: number
+): string {
+  return [
+    `${step}. ${call}`,
+    ...(watched ? [`   ${watched}: ${before} -> ${after}`] : []),
+    `   gas used: ${gasUsed}`,
+  ].join("\n");
+}
+
+// Executes the calls in order from `sender` on a Hardhat network (e.g. a mainnet fork), printing the
+// watched state before and after each one. Throws on the first call that would revert, and always
+// rolls the network back to where it started
+export async function simulateContractCalls(
+  { ethers, network }: HardhatRuntimeEnvironment,
+  calls: ContractCall[],
+  sender: string,
+  log: (message: string) => void = console.log
+): Promise<SimulatedCall[]> {
+  try {
+    await network.provider.request({
+      method: "hardhat_impersonateAccount",
+      params: [sender],
+    });
+  } catch (err) {
+    throw new Error(
+      `Simulations need a Hardhat network, e.g. \`npx hardhat node --fork <url>\` (${network.name} does not support impersonation)`
+    );
+  }
+
+  const snapshot = await network.provider.request({ method: "evm_snapshot" });
+  const results: SimulatedCall[] = [];
+
+  try {
+    await network.provider.request({
+      method: "hardhat_setBalance",
+      params: [sender, utils.hexValue(utils.parseEther("100"))],
+    });
+
+    const signer = await ethers.getSigner(sender);
+
+    for (const [idx, call] of calls.entries()) {
+      const { contract, method, args, watch } = call;
+      const connected = contract.connect(signer);
+      const formatted = formatContractCall(call);
+      const before = watch ? display(await watch.read()) : undefined;
+
+      try {
+        await connected.callStatic[method](...args);
+      } catch (err) {
+        throw new SimulationRevertError(
+          idx + 1,
+          formatted,
+          getRevertReason(contract, err)
+        );
+      }
+
+      const receipt = await (await connected[method](...args)).wait();
+      const result: SimulatedCall = {
+        call: formatted,
+        gasUsed: receipt.gasUsed.toString(),
+        ...(watch
+          ? {
+              watched: watch.name,
+              before,
+              after: display(await watch.read()),
+            }
+          : {}),
+      };
+
+      results.push(result);
+      log(formatSimulatedCall(result, idx + 1));
+    }
+  } finally {
+    await network.provider.request({
+      method: "evm_revert",
+      params: [snapshot],
+    });
+    await network.provider.request({
+      method: "hardhat_stopImpersonatingAccount",
+      params: [sender],
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,182 @@
+import { BigNumber } from "ethers";
+import {
+  ERC1155PresetMinterSupply__factory,
+  PirexCvx,
+  PxCvx__factory,
+} from "../../typechain-types";
+import { EPOCH_DURATION, getRewardToken } from "./constants";
+import { getEpoch } from "./epochs";
+
+export interface ClaimableReward {
+  // Index into the epoch's `rewards`
+  rewardIndex: number;
+  token: string;
+  amount: BigNumber;
+}
+
+export interface ClaimableEpochRewards {
+  epoch: number;
+  snapshotBalance: BigNumber;
+  snapshotSupply: BigNumber;
+  // Unredeemed, non-zero snapshot rewards for the account's pxCVX balance at the snapshot
+  snapshotRewards: ClaimableReward[];
+  rpxCvxBalance: BigNumber;
+  rpxCvxSupply: BigNumber;
+  // What `redeemFuturesRewards` transfers for the account's whole rpxCVX balance
+  futuresRewards: ClaimableReward[];
+}
+
+export interface ClaimableRewardsOptions {
+  // Epochs to walk, inclusive. By default, from the epoch of the first pxCVX snapshot
+  // to the current epoch
+  fromEpoch?: number;
+  toEpoch?: number;
+  // Receiver set in the redemption arguments, the account by default
+  receiver?: string;
+}
+
+export interface ClaimableRewards {
+  account: string;
+  epochs: ClaimableEpochRewards[];
+  totals: {
+    [token: string]: { snapshotRewards: BigNumber; futuresRewards: BigNumber };
+  };
+  // Arguments for `redeemSnapshotRewards` and `redeemFuturesRewards`, sent from the account
+  redeemSnapshotRewards: [number, number[], string][];
+  redeemFuturesRewards: [number, string][];
+}
+
+// Snapshot rewards are redeemed per reward index, flagged in the account's bitmap for the epoch
+function isRedeemed(redeemed: BigNumber, rewardIndex: number): boolean {
+  return !redeemed.and(BigNumber.from(1).shl(rewardIndex)).isZero();
+}
+
+// Walks the epochs with rewards, newest first, and returns what `account` can still
+// redeem with the amounts the contract would transfer right now. Futures rewards are
+// shared with the remaining rpxCVX holders, so they change as others redeem
+export async function getClaimableRewards(
+  pirexCvx: PirexCvx,
+  account: string,
+  { fromEpoch, toEpoch, receiver = account }: ClaimableRewardsOptions = {}
+): Promise<ClaimableRewards> {
+  const { provider } = pirexCvx;
+  const pxCvx = PxCvx__factory.connect(await pirexCvx.pxCvx(), provider);
+  const rpxCvx = ERC1155PresetMinterSupply__factory.connect(
+    await pirexCvx.rpxCvx(),
+    provider
+  );
+  const currentEpoch = (await pirexCvx.getCurrentEpoch()).toNumber();
+  const firstEpoch = fromEpoch === undefined ? undefined : getEpoch(fromEpoch);
+  const epochs: ClaimableEpochRewards[] = [];
+
+  // Without snapshots, no epoch has rewards
+  if ((await pxCvx.getCurrentSnapshotId()).isZero()) {
+    return {
+      account,
+      epochs,
+      totals: {},
+      redeemSnapshotRewards: [],
+      redeemFuturesRewards: [],
+    };
+  }
+
+  for (
+    let epoch = getEpoch(Math.min(toEpoch ?? currentEpoch, currentEpoch));
+    epoch > 0 && (firstEpoch === undefined || epoch >= firstEpoch);
+    epoch -= EPOCH_DURATION
+  ) {
+    const { snapshotId, rewards, snapshotRewards, futuresRewards } =
+      await pxCvx.getEpoch(epoch);
+
+    // Rewards are only added once the epoch snapshot is taken
+    if (rewards.length !== 0) {
+      const [
+        redeemed,
+        snapshotBalance,
+        snapshotSupply,
+        rpxCvxBalance,
+        rpxCvxSupply,
+      ] = await Promise.all([
+        pxCvx.getEpochRedeemedSnapshotRewards(account, epoch),
+        pxCvx.balanceOfAt(account, snapshotId),
+        pxCvx.totalSupplyAt(snapshotId),
+        rpxCvx.balanceOf(account, epoch),
+        rpxCvx.totalSupply(epoch),
+      ]);
+      const tokens: string[] = rewards.map(getRewardToken);
+      const claimableSnapshotRewards = tokens
+        .map((token, rewardIndex) => ({
+          rewardIndex,
+          token,
+          amount: snapshotRewards[rewardIndex]
+            .mul(snapshotBalance)
+            .div(snapshotSupply),
+        }))
+        .filter(
+          ({ rewardIndex, amount }) =>
+            !amount.isZero() && !isRedeemed(redeemed, rewardIndex)
+        );
+      const claimableFuturesRewards = rpxCvxBalance.isZero()
+        ? []
+        : tokens
+            .map((token, rewardIndex) => ({
+              rewardIndex,
+              token,
+              amount: futuresRewards[rewardIndex]
+                .mul(rpxCvxBalance)
+                .div(rpxCvxSupply),
+            }))
+            .filter(({ amount }) => !amount.isZero());
+
+      if (claimableSnapshotRewards.length || claimableFuturesRewards.length) {
+        epochs.push({
+          epoch,
+          snapshotBalance,
+          snapshotSupply,
+          snapshotRewards: claimableSnapshotRewards,
+          rpxCvxBalance,
+          rpxCvxSupply,
+          futuresRewards: claimableFuturesRewards,
+        });
+      }
+    }
+
+    // Snapshot ids are sequential, so nothing precedes the epoch of the first one
+    if (firstEpoch === undefined && snapshotId.eq(1)) break;
+  }
+
+  const zero = BigNumber.from(0);
+  const totals: ClaimableRewards["totals"] = {};
+
+  for (const { snapshotRewards, futuresRewards } of epochs) {
+    for (const [kind, claimable] of [
+      ["snapshotRewards", snapshotRewards],
+      ["futuresRewards", futuresRewards],
+    ] as const) {
+      for (const { token, amount } of claimable) {
+        const total = (totals[token] = totals[token] || {
+          snapshotRewards: zero,
+          futuresRewards: zero,
+        });
+
+        total[kind] = total[kind].add(amount);
+      }
+    }
+  }
+
+  return {
+    account,
+    epochs,
+    totals,
+    redeemSnapshotRewards: epochs
+      .filter(({ snapshotRewards }) => snapshotRewards.length)
+      .map(({ epoch, snapshotRewards }) => [
+        epoch,
+        snapshotRewards.map(({ rewardIndex }) => rewardIndex),
+        receiver,
+      ]),
+    redeemFuturesRewards: epochs
+      .filter(({ futuresRewards }) => futuresRewards.length)
+      .map(({ epoch }) => [epoch, receiver]),
+  };
+}
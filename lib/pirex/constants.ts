@@ -0,0 +1,30 @@
+import { utils } from "ethers";
+
+// Mirrors PirexCvx.Futures
+export enum Futures {
+  Vote,
+  Reward,
+}
+
+// Mirrors PirexCvx.Fees
+export enum Fees {
+  Reward,
+  RedemptionMax,
+  RedemptionMin,
+  Developers,
+}
+
+// Mirror the PirexCvx constants
+export const EPOCH_DURATION = 2 * 7 * 86400;
+export const MAX_REDEMPTION_TIME = 17 * 7 * 86400;
+export const FEE_DENOMINATOR = 1_000_000;
+export const FEE_MAX = 100_000;
+
+// Mirror the CvxLockerV2 constants (`rewardsDuration` and `lockDuration`)
+export const CONVEX_LOCK_WEEK = 7 * 86400;
+export const CONVEX_LOCK_DURATION = 16 * CONVEX_LOCK_WEEK;
+
+// Reward tokens are stored by PxCvx as addresses padded on the right
+export function getRewardToken(reward: string): string {
+  return utils.getAddress(utils.hexDataSlice(reward, 0, 20));
+}
@@ -0,0 +1,171 @@
+import {
+  CONVEX_LOCK_DURATION,
+  CONVEX_LOCK_WEEK,
+  EPOCH_DURATION,
+  Futures,
+} from "./constants";
+
+// Epochs are timestamps, and double as the ids of vpxCVX, rpxCVX and spxCVX (its expiry).
+// upxCVX ids are Convex unlock times, which fall on lock weeks rather than epochs
+
+export interface TokenIds {
+  // spxCVX id for a stake, upxCVX id for a redemption
+  tokenId: number;
+  rounds: number;
+  // vpxCVX or rpxCVX ids minted, one per round
+  futuresIds: number[];
+}
+
+export interface CalendarEvent {
+  timestamp: number;
+  label: string;
+}
+
+// `getCurrentEpoch()` at `timestamp`
+export function getEpoch(timestamp: number): number {
+  return Math.floor(timestamp / EPOCH_DURATION) * EPOCH_DURATION;
+}
+
+export function getNextEpoch(timestamp: number): number {
+  return getEpoch(timestamp) + EPOCH_DURATION;
+}
+
+// CvxLockerV2 epoch at `timestamp`. Each Pirex epoch spans two of them
+export function getLockWeek(timestamp: number): number {
+  return Math.floor(timestamp / CONVEX_LOCK_WEEK) * CONVEX_LOCK_WEEK;
+}
+
+export function getLockWeeks(epoch: number): number[] {
+  return [epoch, epoch + CONVEX_LOCK_WEEK];
+}
+
+// Unlock time of CVX locked by PirexCvx at `timestamp`: fresh locks start the following week
+export function getUnlockTime(timestamp: number): number {
+  return getLockWeek(timestamp) + CONVEX_LOCK_WEEK + CONVEX_LOCK_DURATION;
+}
+
+// Full epochs until the unlock, plus one for a lock in the first half of an epoch
+// unlocking between one and two weeks from now
+export function getRedemptionRounds(
+  unlockTime: number,
+  timestamp: number
+): number {
+  const waitTime = unlockTime - timestamp;
+  const rounds = Math.floor(waitTime / EPOCH_DURATION);
+
+  return rounds === 0 &&
+    unlockTime % EPOCH_DURATION !== 0 &&
+    waitTime > EPOCH_DURATION / 2
+    ? 1
+    : rounds;
+}
+
+// Futures are minted for the epochs following the current one
+export function getFuturesIds(rounds: number, timestamp: number): number[] {
+  const startingEpoch = getNextEpoch(timestamp);
+
+  return [...Array(rounds).keys()].map(
+    (round) => startingEpoch + round * EPOCH_DURATION
+  );
+}
+
+// Ids minted by `stake(rounds, ...)` at `timestamp`
+export function getStakeTokenIds(rounds: number, timestamp: number): TokenIds {
+  return {
+    tokenId: getEpoch(timestamp) + rounds * EPOCH_DURATION,
+    rounds,
+    futuresIds: getFuturesIds(rounds, timestamp),
+  };
+}
+
+// Ids minted by `initiateRedemptions` at `timestamp` for a lock unlocking at `unlockTime`
+export function getRedemptionTokenIds(
+  unlockTime: number,
+  timestamp: number
+): TokenIds {
+  const rounds = getRedemptionRounds(unlockTime, timestamp);
+
+  return {
+    tokenId: unlockTime,
+    rounds,
+    futuresIds: getFuturesIds(rounds, timestamp),
+  };
+}
+
+function getFuturesName(f: Futures): string {
+  return f === Futures.Vote ? "vpxCVX" : "rpxCVX";
+}
+
+export function getStakeEvents(
+  rounds: number,
+  f: Futures,
+  timestamp: number
+): CalendarEvent[] {
+  const { tokenId, futuresIds } = getStakeTokenIds(rounds, timestamp);
+
+  return [
+    ...futuresIds.map((id) => ({
+      timestamp: id,
+      label: `${getFuturesName(f)} ${id}`,
+    })),
+    { timestamp: tokenId, label: `spxCVX ${tokenId} expires` },
+  ];
+}
+
+export function getRedemptionEvents(
+  unlockTime: number,
+  f: Futures,
+  timestamp: number
+): CalendarEvent[] {
+  const { tokenId, futuresIds } = getRedemptionTokenIds(unlockTime, timestamp);
+
+  return [
+    ...futuresIds.map((id) => ({
+      timestamp: id,
+      label: `${getFuturesName(f)} ${id}`,
+    })),
+    { timestamp: tokenId, label: `upxCVX ${tokenId} unlocks` },
+  ];
+}
+
+export function formatTimestamp(timestamp: number): string {
+  return `${new Date(timestamp * 1000)
+    .toISOString()
+    .slice(0, 16)
+    .replace("T", " ")} UTC`;
+}
+
+// Lists the epochs from the one containing `timestamp` through the last event (or `rounds`
+// epochs ahead), with their Convex lock weeks and the events falling in each
+export function formatEpochCalendar(
+  timestamp: number,
+  events: CalendarEvent[] = [],
+  rounds = 0
+): string {
+  const currentEpoch = getEpoch(timestamp);
+  const lastEpoch = Math.max(
+    currentEpoch + rounds * EPOCH_DURATION,
+    ...events.map((event) => getEpoch(event.timestamp))
+  );
+  const sortedEvents = [...events].sort((a, b) => a.timestamp - b.timestamp);
+  const lines: string[] = [];
+
+  for (let epoch = currentEpoch; epoch <= lastEpoch; epoch += EPOCH_DURATION) {
+    const range = `${formatTimestamp(epoch)} to ${formatTimestamp(
+      epoch + EPOCH_DURATION
+    )}`;
+
+    lines.push(
+      `Epoch ${epoch}: ${range}${epoch === currentEpoch ? " (current)" : ""}`,
+      `  Convex lock weeks ${getLockWeeks(epoch).join(", ")}`,
+      ...sortedEvents
+        .filter((event) => getEpoch(event.timestamp) === epoch)
+        .map(
+          ({ timestamp: eventTimestamp, label }) =>
+            `  ${formatTimestamp(eventTimestamp)} ${label}`
+        )
+    );
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,65 @@
+export { getClaimableRewards } from "./claimable";
+export type {
+  ClaimableEpochRewards,
+  ClaimableReward,
+  ClaimableRewards,
+  ClaimableRewardsOptions,
+} from "./claimable";
+export {
+  CONVEX_LOCK_DURATION,
+  CONVEX_LOCK_WEEK,
+  EPOCH_DURATION,
+  FEE_DENOMINATOR,
+  FEE_MAX,
+  Fees,
+  Futures,
+  getRewardToken,
+  MAX_REDEMPTION_TIME,
+} from "./constants";
+export {
+  formatEpochCalendar,
+  formatTimestamp,
+  getEpoch,
+  getFuturesIds,
+  getLockWeek,
+  getLockWeeks,
+  getNextEpoch,
+  getRedemptionEvents,
+  getRedemptionRounds,
+  getRedemptionTokenIds,
+  getStakeEvents,
+  getStakeTokenIds,
+  getUnlockTime,
+} from "./epochs";
+export type { CalendarEvent, TokenIds } from "./epochs";
+export {
+  getRedemptionFeePercent,
+  getRedemptionState,
+  quoteRedemption,
+  quoteRedemptions,
+} from "./redemption";
+export type {
+  LockedBalance,
+  RedemptionQuote,
+  RedemptionQuoteOptions,
+  RedemptionState,
+  RedemptionsQuote,
+  RedemptionsQuoteOptions,
+} from "./redemption";
+export { getRedemptionPlan, planRedemptions } from "./redemption-planner";
+export type {
+  RedemptionPlan,
+  RedemptionPlanOptions,
+  RedemptionPlanStrategy,
+} from "./redemption-planner";
+export {
+  getRewardForecast,
+  reconcileRewardForecast,
+  splitReward,
+} from "./rewards";
+export type {
+  RewardForecast,
+  RewardReconciliation,
+  RewardSplit,
+  RewardSplitOptions,
+} from "./rewards";
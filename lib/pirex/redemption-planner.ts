@@ -0,0 +1,132 @@
+import { BigNumber, BigNumberish } from "ethers";
+import { PirexCvx } from "../../typechain-types";
+import { PirexCvxValidationError } from "../sdk/errors";
+import { FEE_DENOMINATOR, MAX_REDEMPTION_TIME } from "./constants";
+import {
+  getRedemptionFeePercent,
+  getRedemptionState,
+  LockedBalance,
+  quoteRedemptions,
+  RedemptionsQuote,
+  RedemptionsQuoteOptions,
+} from "./redemption";
+
+// Cheapest redeems from the latest unlocks first, soonest from the earliest
+export type RedemptionPlanStrategy = "fees" | "wait";
+
+export interface RedemptionPlanOptions extends RedemptionsQuoteOptions {
+  strategy?: RedemptionPlanStrategy;
+}
+
+// Arguments for `initiateRedemptions`, with what they are quoted to charge and mint
+export interface RedemptionPlan extends RedemptionsQuote {
+  lockIndexes: number[];
+  assets: BigNumber[];
+}
+
+// Largest pxCVX amount whose post-fee amount fits in `allowance`
+function getMaxAssets(allowance: BigNumber, feePercent: BigNumber): BigNumber {
+  return allowance
+    .mul(FEE_DENOMINATOR)
+    .div(BigNumber.from(FEE_DENOMINATOR).sub(feePercent));
+}
+
+// Splits `assets` pxCVX across the locks with redemption allowance left, i.e. whose
+// amount exceeds the upxCVX already issued for their unlock time
+export function planRedemptions(
+  lockedBalances: LockedBalance[],
+  assets: BigNumberish,
+  { strategy = "fees", redemptions = {}, ...options }: RedemptionPlanOptions
+): RedemptionPlan {
+  const { timestamp, feeMin, feeMax } = options;
+  const requested = BigNumber.from(assets);
+
+  if (requested.isZero()) {
+    throw new PirexCvxValidationError("ZeroAmount", "assets is zero");
+  }
+
+  const candidates = lockedBalances
+    .map(({ amount, unlockTime }, lockIndex) => ({
+      lockIndex,
+      amount: BigNumber.from(amount),
+      unlockTime: BigNumber.from(unlockTime).toNumber(),
+    }))
+    .filter(
+      ({ unlockTime }) =>
+        unlockTime > timestamp && unlockTime - timestamp <= MAX_REDEMPTION_TIME
+    )
+    .sort((a, b) =>
+      strategy === "fees"
+        ? b.unlockTime - a.unlockTime
+        : a.unlockTime - b.unlockTime
+    );
+  const redeemed: { [unlockTime: string]: BigNumber } = {};
+  const lockIndexes: number[] = [];
+  const amounts: BigNumber[] = [];
+  let remaining = requested;
+
+  for (const { lockIndex, amount, unlockTime } of candidates) {
+    if (remaining.isZero()) break;
+
+    const key = unlockTime.toString();
+    const redeemedBefore =
+      redeemed[key] || BigNumber.from(redemptions[key] || 0);
+    const allowance = amount.sub(redeemedBefore);
+
+    if (allowance.lte(0)) continue;
+
+    const feePercent = getRedemptionFeePercent(
+      unlockTime - timestamp,
+      feeMin,
+      feeMax
+    );
+    const maxAssets = getMaxAssets(allowance, feePercent);
+    const take = maxAssets.lt(remaining) ? maxAssets : remaining;
+
+    if (take.isZero()) continue;
+
+    lockIndexes.push(lockIndex);
+    amounts.push(take);
+    redeemed[key] = redeemedBefore.add(
+      take.sub(take.mul(feePercent).div(FEE_DENOMINATOR))
+    );
+    remaining = remaining.sub(take);
+  }
+
+  if (!remaining.isZero()) {
+    const redeemable = requested.sub(remaining).toString();
+
+    throw new PirexCvxValidationError(
+      "InsufficientRedemptionAllowance",
+      `Only ${redeemable} of ${requested.toString()} pxCVX can be redeemed from the current locks`
+    );
+  }
+
+  return {
+    ...quoteRedemptions(lockedBalances, lockIndexes, amounts, {
+      ...options,
+      redemptions,
+    }),
+    lockIndexes,
+    assets: amounts,
+  };
+}
+
+// Plans a redemption against PirexCvx's current locks, redemptions and fees.
+// Quoted for `timestamp` (the latest block's by default), so amounts may shift slightly
+// by the time the redemption is mined
+export async function getRedemptionPlan(
+  pirexCvx: PirexCvx,
+  assets: BigNumberish,
+  {
+    strategy,
+    timestamp,
+  }: { strategy?: RedemptionPlanStrategy; timestamp?: number } = {}
+): Promise<RedemptionPlan> {
+  const { lockedBalances, ...options } = await getRedemptionState(
+    pirexCvx,
+    timestamp
+  );
+
+  return planRedemptions(lockedBalances, assets, { strategy, ...options });
+}
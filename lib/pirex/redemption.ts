@@ -0,0 +1,196 @@
+import { BigNumber, BigNumberish } from "ethers";
+import { ICvxLocker__factory, PirexCvx } from "../../typechain-types";
+import { PirexCvxValidationError } from "../sdk/errors";
+import { FEE_DENOMINATOR, Fees, MAX_REDEMPTION_TIME } from "./constants";
+import { getRedemptionTokenIds } from "./epochs";
+
+// An entry of `cvxLocker.lockedBalances(pirexCvx).lockData`
+export interface LockedBalance {
+  amount: BigNumberish;
+  unlockTime: BigNumberish;
+}
+
+export interface RedemptionQuoteOptions {
+  // Timestamp of the block the redemption is mined in
+  timestamp: number;
+  // `fees(Fees.RedemptionMin)` and `fees(Fees.RedemptionMax)`
+  feeMin: BigNumberish;
+  feeMax: BigNumberish;
+}
+
+export interface RedemptionsQuoteOptions extends RedemptionQuoteOptions {
+  // `redemptions(unlockTime)` before the call, keyed by unlock time
+  redemptions?: { [unlockTime: string]: BigNumberish };
+}
+
+export interface RedemptionState extends RedemptionsQuoteOptions {
+  lockedBalances: LockedBalance[];
+}
+
+export interface RedemptionQuote {
+  unlockTime: number;
+  waitTime: number;
+  // pxCVX redeemed, including the fee
+  assets: BigNumber;
+  feePercent: BigNumber;
+  feeAmount: BigNumber;
+  // upxCVX received, with the unlock time as its id
+  postFeeAmount: BigNumber;
+  rounds: number;
+  // vpxCVX or rpxCVX ids (epochs) minted, `assets` of each
+  futuresIds: number[];
+}
+
+export interface RedemptionsQuote {
+  quotes: RedemptionQuote[];
+  totalAssets: BigNumber;
+  feeAmount: BigNumber;
+  // `redemptions(unlockTime)` after the call
+  redemptions: { [unlockTime: string]: BigNumber };
+}
+
+// Linear between feeMax for an immediate unlock and feeMin at MAX_REDEMPTION_TIME
+export function getRedemptionFeePercent(
+  waitTime: number,
+  feeMin: BigNumberish,
+  feeMax: BigNumberish
+): BigNumber {
+  const max = BigNumber.from(feeMax);
+
+  if (max.isZero()) return max;
+  if (waitTime > MAX_REDEMPTION_TIME) {
+    throw new Error(
+      `Wait time ${waitTime} exceeds MAX_REDEMPTION_TIME (${MAX_REDEMPTION_TIME})`
+    );
+  }
+
+  return max.sub(max.sub(feeMin).mul(waitTime).div(MAX_REDEMPTION_TIME));
+}
+
+// What `_initiateRedemption` charges and mints for `assets` pxCVX redeemed from one lock
+export function quoteRedemption(
+  { unlockTime }: LockedBalance,
+  assets: BigNumberish,
+  { timestamp, feeMin, feeMax }: RedemptionQuoteOptions
+): RedemptionQuote {
+  const amount = BigNumber.from(assets);
+  const unlock = BigNumber.from(unlockTime).toNumber();
+  const waitTime = unlock - timestamp;
+
+  if (amount.isZero()) {
+    throw new PirexCvxValidationError("ZeroAmount", "assets is zero");
+  }
+  // The contract reverts with an arithmetic underflow
+  if (waitTime < 0) {
+    throw new Error(`Lock unlocked at ${unlock}, before ${timestamp}`);
+  }
+
+  const feePercent = getRedemptionFeePercent(waitTime, feeMin, feeMax);
+  const feeAmount = amount.mul(feePercent).div(FEE_DENOMINATOR);
+  const { rounds, futuresIds } = getRedemptionTokenIds(unlock, timestamp);
+
+  return {
+    unlockTime: unlock,
+    waitTime,
+    assets: amount,
+    feePercent,
+    feeAmount,
+    postFeeAmount: amount.sub(feeAmount),
+    rounds,
+    futuresIds,
+  };
+}
+
+// What `initiateRedemptions` charges and mints, including its allowance check
+// against the redemptions already made for each unlock time
+export function quoteRedemptions(
+  lockedBalances: LockedBalance[],
+  lockIndexes: number[],
+  assets: BigNumberish[],
+  { redemptions = {}, ...options }: RedemptionsQuoteOptions
+): RedemptionsQuote {
+  if (lockIndexes.length === 0) {
+    throw new PirexCvxValidationError("EmptyArray", "lockIndexes are empty");
+  }
+  if (lockIndexes.length !== assets.length) {
+    throw new PirexCvxValidationError(
+      "MismatchedArrayLengths",
+      `lockIndexes and assets have different lengths (${lockIndexes.length} and ${assets.length})`
+    );
+  }
+
+  const redeemed = Object.keys(redemptions).reduce<{
+    [unlockTime: string]: BigNumber;
+  }>((memo, unlockTime) => {
+    memo[unlockTime] = BigNumber.from(redemptions[unlockTime]);
+    return memo;
+  }, {});
+  const quotes = lockIndexes.map((lockIndex, idx) => {
+    const lock = lockedBalances[lockIndex];
+
+    if (!lock) throw new Error(`No locked balance at index ${lockIndex}`);
+
+    const quote = quoteRedemption(lock, assets[idx], options);
+    const key = quote.unlockTime.toString();
+    const total = (redeemed[key] || BigNumber.from(0)).add(quote.postFeeAmount);
+
+    if (total.gt(lock.amount)) {
+      throw new PirexCvxValidationError(
+        "InsufficientRedemptionAllowance",
+        `Redemptions for ${key} would reach ${total.toString()}, above the ${lock.amount.toString()} locked`
+      );
+    }
+
+    redeemed[key] = total;
+
+    return quote;
+  });
+
+  return {
+    quotes,
+    totalAssets: quotes.reduce(
+      (sum, { assets }) => sum.add(assets),
+      BigNumber.from(0)
+    ),
+    feeAmount: quotes.reduce(
+      (sum, { feeAmount }) => sum.add(feeAmount),
+      BigNumber.from(0)
+    ),
+    redemptions: redeemed,
+  };
+}
+
+// PirexCvx's current locks, redemptions and fees, to quote or plan redemptions with.
+// Quoted for `timestamp` (the latest block's by default); a later block charges a higher
+// fee, so the upxCVX minted, and the allowance used, can only be lower than quoted
+export async function getRedemptionState(
+  pirexCvx: PirexCvx,
+  timestamp?: number
+): Promise<RedemptionState> {
+  const cvxLocker = ICvxLocker__factory.connect(
+    await pirexCvx.cvxLocker(),
+    pirexCvx.provider
+  );
+  const { lockData } = await cvxLocker.lockedBalances(pirexCvx.address);
+  const unlockTimes: number[] = lockData.map(({ unlockTime }: LockedBalance) =>
+    BigNumber.from(unlockTime).toNumber()
+  );
+  const redeemed = await Promise.all(
+    unlockTimes.map((unlockTime) => pirexCvx.redemptions(unlockTime))
+  );
+
+  return {
+    lockedBalances: lockData,
+    timestamp:
+      timestamp ?? (await pirexCvx.provider.getBlock("latest")).timestamp,
+    feeMin: await pirexCvx.fees(Fees.RedemptionMin),
+    feeMax: await pirexCvx.fees(Fees.RedemptionMax),
+    redemptions: unlockTimes.reduce<{ [unlockTime: string]: BigNumberish }>(
+      (memo, unlockTime, idx) => {
+        memo[unlockTime.toString()] = redeemed[idx];
+        return memo;
+      },
+      {}
+    ),
+  };
+}
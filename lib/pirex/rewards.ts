@@ -0,0 +1,191 @@
+import { BigNumber, BigNumberish, utils } from "ethers";
+import {
+  ERC1155PresetMinterSupply__factory,
+  PirexCvx,
+  PirexFees__factory,
+  PxCvx__factory,
+} from "../../typechain-types";
+import { FEE_DENOMINATOR, Fees, getRewardToken } from "./constants";
+
+// PirexFees.PERCENT_DENOMINATOR
+const PERCENT_DENOMINATOR = 100;
+
+export interface RewardSplitOptions {
+  // `fees(Fees.Reward)`
+  feePercent: BigNumberish;
+  // pxCVX supply at the epoch snapshot
+  snapshotSupply: BigNumberish;
+  // rpxCVX supply for the epoch
+  rpxCvxSupply: BigNumberish;
+  // `pirexFees.treasuryPercent()`
+  treasuryPercent: BigNumberish;
+}
+
+export interface RewardSplit {
+  token: string;
+  received: BigNumber;
+  rewardFee: BigNumber;
+  // Redeemable by pxCVX holders at the snapshot
+  snapshotRewards: BigNumber;
+  // Redeemable by rpxCVX holders of the epoch
+  futuresRewards: BigNumber;
+  treasuryFee: BigNumber;
+  contributorsFee: BigNumber;
+}
+
+export interface RewardForecast extends Omit<RewardSplitOptions, "feePercent"> {
+  epoch: number;
+  feePercent: BigNumber;
+  splits: RewardSplit[];
+}
+
+export interface RewardReconciliation {
+  token: string;
+  expectedSnapshotRewards: BigNumber;
+  actualSnapshotRewards: BigNumber;
+  expectedFuturesRewards: BigNumber;
+  actualFuturesRewards: BigNumber;
+  matches: boolean;
+}
+
+// Mirrors PirexCvx._calculateRewards and PirexFees.distributeFees for one claimed reward
+export function splitReward(
+  token: string,
+  received: BigNumberish,
+  {
+    feePercent,
+    snapshotSupply,
+    rpxCvxSupply,
+    treasuryPercent,
+  }: RewardSplitOptions
+): RewardSplit {
+  const amount = BigNumber.from(received);
+  const supply = BigNumber.from(snapshotSupply).add(rpxCvxSupply);
+
+  // The contract reverts with a division by zero
+  if (supply.isZero()) {
+    throw new Error("Neither pxCVX nor rpxCVX has any supply for the epoch");
+  }
+
+  const rewardFee = amount.mul(feePercent).div(FEE_DENOMINATOR);
+  const rewards = amount.sub(rewardFee);
+  const snapshotRewards = rewards.mul(snapshotSupply).div(supply);
+  const treasuryFee = rewardFee.mul(treasuryPercent).div(PERCENT_DENOMINATOR);
+
+  return {
+    token: utils.getAddress(token),
+    received: amount,
+    rewardFee,
+    snapshotRewards,
+    futuresRewards: rewards.sub(snapshotRewards),
+    treasuryFee,
+    contributorsFee: rewardFee.sub(treasuryFee),
+  };
+}
+
+// Forecasts how `claimVotiumRewards` splits rewards (amounts received by PirexCvx) in the current
+// epoch. If the epoch snapshot has not been taken yet, the claim takes it, so the current pxCVX
+// supply is used and the forecast holds as long as the supply does not change before then
+export async function getRewardForecast(
+  pirexCvx: PirexCvx,
+  rewards: { token: string; amount: BigNumberish }[]
+): Promise<RewardForecast> {
+  const { provider } = pirexCvx;
+  const pxCvx = PxCvx__factory.connect(await pirexCvx.pxCvx(), provider);
+  const rpxCvx = ERC1155PresetMinterSupply__factory.connect(
+    await pirexCvx.rpxCvx(),
+    provider
+  );
+  const pirexFees = PirexFees__factory.connect(
+    await pirexCvx.pirexFees(),
+    provider
+  );
+  const epoch = await pirexCvx.getCurrentEpoch();
+  const { snapshotId } = await pxCvx.getEpoch(epoch);
+  const options = {
+    feePercent: BigNumber.from(await pirexCvx.fees(Fees.Reward)),
+    snapshotSupply: snapshotId.isZero()
+      ? await pxCvx.totalSupply()
+      : await pxCvx.totalSupplyAt(snapshotId),
+    rpxCvxSupply: await rpxCvx.totalSupply(epoch),
+    treasuryPercent: await pirexFees.treasuryPercent(),
+  };
+
+  return {
+    ...options,
+    epoch: epoch.toNumber(),
+    splits: rewards.map(({ token, amount }) =>
+      splitReward(token, amount, options)
+    ),
+  };
+}
+
+function sumByToken(entries: { token: string; amount: BigNumber }[]): {
+  [token: string]: BigNumber;
+} {
+  return entries.reduce<{ [token: string]: BigNumber }>(
+    (memo, { token, amount }) => {
+      memo[token] = (memo[token] || BigNumber.from(0)).add(amount);
+      return memo;
+    },
+    {}
+  );
+}
+
+// Compares a forecast of every claim in an epoch with `pxCvx.getEpoch(epoch)` afterwards, per token.
+// Futures rewards shrink as rpxCVX holders redeem them, so reconcile before any redemption
+export function reconcileRewardForecast(
+  { splits }: RewardForecast,
+  {
+    rewards,
+    snapshotRewards,
+    futuresRewards,
+  }: {
+    rewards: string[];
+    snapshotRewards: BigNumberish[];
+    futuresRewards: BigNumberish[];
+  }
+): RewardReconciliation[] {
+  const tokens = rewards.map(getRewardToken);
+  const expectedSnapshot = sumByToken(
+    splits.map(({ token, snapshotRewards: amount }) => ({ token, amount }))
+  );
+  const expectedFutures = sumByToken(
+    splits.map(({ token, futuresRewards: amount }) => ({ token, amount }))
+  );
+  const actualSnapshot = sumByToken(
+    tokens.map((token, idx) => ({
+      token,
+      amount: BigNumber.from(snapshotRewards[idx]),
+    }))
+  );
+  const actualFutures = sumByToken(
+    tokens.map((token, idx) => ({
+      token,
+      amount: BigNumber.from(futuresRewards[idx]),
+    }))
+  );
+  const zero = BigNumber.from(0);
+  const allTokens = new Set([
+    ...Object.keys(expectedSnapshot),
+    ...Object.keys(actualSnapshot),
+  ]);
+
+  return [...allTokens].map((token) => {
+    const expectedSnapshotRewards = expectedSnapshot[token] || zero;
+    const actualSnapshotRewards = actualSnapshot[token] || zero;
+    const expectedFuturesRewards = expectedFutures[token] || zero;
+    const actualFuturesRewards = actualFutures[token] || zero;
+
+    return {
+      token,
+      expectedSnapshotRewards,
+      actualSnapshotRewards,
+      expectedFuturesRewards,
+      actualFuturesRewards,
+      matches:
+        expectedSnapshotRewards.eq(actualSnapshotRewards) &&
+        expectedFuturesRewards.eq(actualFuturesRewards),
+    };
+  });
+}
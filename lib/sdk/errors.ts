@@ -0,0 +1,24 @@
+// Custom errors the PirexCvx user flows revert with, checked off-chain
+export type PirexCvxErrorName =
+  | "ZeroAmount"
+  | "ZeroAddress"
+  | "EmptyArray"
+  | "MismatchedArrayLengths"
+  | "BeforeUnlock"
+  | "BeforeStakingExpiry"
+  | "PastExchangePeriod"
+  | "InvalidEpoch"
+  | "AlreadyRedeemed"
+  | "InsufficientRedemptionAllowance"
+  | "RedeemClosed";
+
+// Thrown instead of sending (or quoting) a transaction the contract would revert with `errorName`
+export class PirexCvxValidationError extends Error {
+  readonly errorName: PirexCvxErrorName;
+
+  constructor(errorName: PirexCvxErrorName, message: string) {
+    super(`${errorName}: ${message}`);
+    this.name = "PirexCvxValidationError";
+    this.errorName = errorName;
+  }
+}
@@ -0,0 +1,16 @@
+export { PirexCvxValidationError } from "./errors";
+export type { PirexCvxErrorName } from "./errors";
+export { Fees, Futures } from "../pirex/constants";
+export { PirexCvxClient } from "./pirex-cvx-client";
+export type {
+  DepositOptions,
+  DepositResult,
+  ExchangeFuturesResult,
+  FuturesMinted,
+  InitiateRedemptionsResult,
+  RedeemFuturesRewardsResult,
+  RedeemResult,
+  RedeemSnapshotRewardsResult,
+  StakeResult,
+  UnstakeResult,
+} from "./pirex-cvx-client";
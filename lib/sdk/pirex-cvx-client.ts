@@ -0,0 +1,458 @@
+import {
+  BigNumber,
+  BigNumberish,
+  constants,
+  Contract,
+  ContractReceipt,
+  Event,
+  Signer,
+  utils,
+} from "ethers";
+import { PirexCvx, PirexCvx__factory } from "../../typechain-types";
+import { Futures, getRewardToken } from "../pirex/constants";
+import { getEpoch } from "../pirex/epochs";
+import { getRedemptionState, quoteRedemptions } from "../pirex/redemption";
+import { PirexCvxErrorName, PirexCvxValidationError } from "./errors";
+
+const ERC20_ABI = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+const ERC1155_INTERFACE = new utils.Interface([
+  "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 amount)",
+]);
+
+export interface DepositOptions {
+  // Deposit the minted pxCVX into the Union vault on behalf of the receiver
+  shouldCompound?: boolean;
+  // Receives the developer incentive if registered on PirexCvx
+  developer?: string;
+  // How to approve PirexCvx when the CVX allowance is too low: for `assets` only,
+  // for the maximum amount, or not at all (throwing instead)
+  approve?: "exact" | "max" | false;
+}
+
+export interface FuturesMinted {
+  rounds: BigNumber;
+  f: Futures;
+  assets: BigNumber;
+  receiver: string;
+}
+
+export interface DepositResult {
+  receipt: ContractReceipt;
+  assets: BigNumber;
+  receiver: string;
+  shouldCompound: boolean;
+  developer: string;
+}
+
+export interface InitiateRedemptionsResult {
+  receipt: ContractReceipt;
+  lockIndexes: BigNumber[];
+  f: Futures;
+  assets: BigNumber[];
+  receiver: string;
+  futures: FuturesMinted[];
+}
+
+export interface RedeemResult {
+  receipt: ContractReceipt;
+  unlockTimes: BigNumber[];
+  assets: BigNumber[];
+  receiver: string;
+}
+
+export interface StakeResult {
+  receipt: ContractReceipt;
+  rounds: BigNumber;
+  f: Futures;
+  assets: BigNumber;
+  receiver: string;
+  // spxCVX id, the timestamp the stake can be unstaked at
+  stakeExpiry: BigNumber;
+  futures: FuturesMinted[];
+}
+
+export interface UnstakeResult {
+  receipt: ContractReceipt;
+  id: BigNumber;
+  assets: BigNumber;
+  receiver: string;
+}
+
+export interface RedeemSnapshotRewardsResult {
+  receipt: ContractReceipt;
+  epoch: BigNumber;
+  rewardIndexes: BigNumber[];
+  receiver: string;
+  snapshotBalance: BigNumber;
+  snapshotSupply: BigNumber;
+}
+
+export interface RedeemFuturesRewardsResult {
+  receipt: ContractReceipt;
+  epoch: BigNumber;
+  receiver: string;
+  // Reward token addresses
+  rewards: string[];
+}
+
+export interface ExchangeFuturesResult {
+  receipt: ContractReceipt;
+  epoch: BigNumber;
+  amount: BigNumber;
+  receiver: string;
+  // The futures token exchanged away
+  f: Futures;
+}
+
+function assert(
+  condition: boolean,
+  errorName: PirexCvxErrorName,
+  message: string
+) {
+  if (!condition) throw new PirexCvxValidationError(errorName, message);
+}
+
+function assertAmount(amount: BigNumberish, name: string) {
+  assert(!BigNumber.from(amount).isZero(), "ZeroAmount", `${name} is zero`);
+}
+
+function assertReceiver(receiver: string) {
+  assert(
+    receiver !== constants.AddressZero,
+    "ZeroAddress",
+    "receiver is the zero address"
+  );
+}
+
+function assertArrays(first: unknown[], second: unknown[], names: string) {
+  assert(first.length !== 0, "EmptyArray", `${names} are empty`);
+  assert(
+    first.length === second.length,
+    "MismatchedArrayLengths",
+    `${names} have different lengths (${first.length} and ${second.length})`
+  );
+}
+
+function getEvents({ events = [] }: ContractReceipt, name: string): Event[] {
+  return events.filter(({ event }) => event === name);
+}
+
+function getEvent(receipt: ContractReceipt, name: string): Event {
+  const [event] = getEvents(receipt, name);
+
+  if (!event || !event.args) {
+    throw new Error(`No ${name} event in ${receipt.transactionHash}`);
+  }
+
+  return event;
+}
+
+function getFuturesMinted(receipt: ContractReceipt): FuturesMinted[] {
+  return getEvents(receipt, "MintFutures").map(({ args }) => ({
+    rounds: args?.rounds,
+    f: args?.f,
+    assets: args?.assets,
+    receiver: args?.receiver,
+  }));
+}
+
+// Wraps the PirexCvx user flows, rejecting arguments the contract would revert on before
+// sending, and returning the values emitted by each flow once its transaction is mined
+export class PirexCvxClient {
+  readonly pirexCvx: PirexCvx;
+
+  constructor(address: string, signer: Signer) {
+    this.pirexCvx = PirexCvx__factory.connect(address, signer);
+  }
+
+  // The earliest timestamp a transaction sent now can be mined at: each block's is
+  // after the previous one's. The time-based checks use it rather than the latest block's,
+  // so that they only reject calls which would revert even if mined in the next block
+  private async getPendingTimestamp(): Promise<number> {
+    return (await this.pirexCvx.provider.getBlock("latest")).timestamp + 1;
+  }
+
+  // Approves PirexCvx to pull `assets` CVX from the signer if its allowance is too low
+  async approveCvx(
+    assets: BigNumberish,
+    approve: DepositOptions["approve"] = "exact"
+  ): Promise<ContractReceipt | undefined> {
+    const cvx = new Contract(
+      await this.pirexCvx.CVX(),
+      ERC20_ABI,
+      this.pirexCvx.signer
+    );
+    const owner = await this.pirexCvx.signer.getAddress();
+    const allowance: BigNumber = await cvx.allowance(
+      owner,
+      this.pirexCvx.address
+    );
+
+    if (allowance.gte(assets)) return;
+    if (!approve) {
+      throw new Error(
+        `CVX allowance of ${allowance.toString()} is below ${assets.toString()}`
+      );
+    }
+
+    return (
+      await cvx.approve(
+        this.pirexCvx.address,
+        approve === "max" ? constants.MaxUint256 : assets
+      )
+    ).wait();
+  }
+
+  async deposit(
+    assets: BigNumberish,
+    receiver: string,
+    {
+      shouldCompound = false,
+      developer = constants.AddressZero,
+      approve = "exact",
+    }: DepositOptions = {}
+  ): Promise<DepositResult> {
+    assertAmount(assets, "assets");
+    assertReceiver(receiver);
+
+    await this.approveCvx(assets, approve);
+
+    const receipt = await (
+      await this.pirexCvx.deposit(assets, receiver, shouldCompound, developer)
+    ).wait();
+    const { args } = getEvent(receipt, "Deposit");
+
+    return {
+      receipt,
+      assets: args?.assets,
+      receiver: args?.receiver,
+      shouldCompound: args?.shouldCompound,
+      developer: args?.developer,
+    };
+  }
+
+  async initiateRedemptions(
+    lockIndexes: BigNumberish[],
+    f: Futures,
+    assets: BigNumberish[],
+    receiver: string
+  ): Promise<InitiateRedemptionsResult> {
+    assertArrays(lockIndexes, assets, "lockIndexes and assets");
+    assets.forEach((amount, idx) => assertAmount(amount, `assets[${idx}]`));
+    assertReceiver(receiver);
+
+    // Throws InsufficientRedemptionAllowance if a lock has too little left to redeem
+    const { lockedBalances, ...options } = await getRedemptionState(
+      this.pirexCvx
+    );
+
+    quoteRedemptions(
+      lockedBalances,
+      lockIndexes.map((lockIndex) => BigNumber.from(lockIndex).toNumber()),
+      assets,
+      options
+    );
+
+    const receipt = await (
+      await this.pirexCvx.initiateRedemptions(lockIndexes, f, assets, receiver)
+    ).wait();
+    const { args } = getEvent(receipt, "InitiateRedemptions");
+
+    return {
+      receipt,
+      lockIndexes: args?.lockIndexes,
+      f: args?.f,
+      assets: args?.assets,
+      receiver: args?.receiver,
+      futures: getFuturesMinted(receipt),
+    };
+  }
+
+  async redeem(
+    unlockTimes: BigNumberish[],
+    assets: BigNumberish[],
+    receiver: string
+  ): Promise<RedeemResult> {
+    assertArrays(unlockTimes, assets, "unlockTimes and assets");
+    assertReceiver(receiver);
+    assert(
+      !(await this.pirexCvx.upxCvxDeprecated()),
+      "RedeemClosed",
+      "upxCVX is deprecated"
+    );
+
+    const timestamp = await this.getPendingTimestamp();
+
+    unlockTimes.forEach((unlockTime, idx) => {
+      assert(
+        BigNumber.from(unlockTime).lte(timestamp),
+        "BeforeUnlock",
+        `unlockTimes[${idx}] (${unlockTime.toString()}) has not passed`
+      );
+      assertAmount(assets[idx], `assets[${idx}]`);
+    });
+
+    const receipt = await (
+      await this.pirexCvx.redeem(unlockTimes, assets, receiver)
+    ).wait();
+    const { args } = getEvent(receipt, "Redeem");
+
+    return {
+      receipt,
+      unlockTimes: args?.unlockTimes,
+      assets: args?.assets,
+      receiver: args?.receiver,
+    };
+  }
+
+  async stake(
+    rounds: BigNumberish,
+    f: Futures,
+    assets: BigNumberish,
+    receiver: string
+  ): Promise<StakeResult> {
+    assertAmount(rounds, "rounds");
+    assertAmount(assets, "assets");
+    assertReceiver(receiver);
+
+    const spxCvx = (await this.pirexCvx.spxCvx()).toLowerCase();
+    const receipt: ContractReceipt = await (
+      await this.pirexCvx.stake(rounds, f, assets, receiver)
+    ).wait();
+    const { args } = getEvent(receipt, "Stake");
+    const [transfer] = receipt.logs
+      .filter(({ address }) => address.toLowerCase() === spxCvx)
+      .map((log) => ERC1155_INTERFACE.parseLog(log));
+
+    return {
+      receipt,
+      rounds: args?.rounds,
+      f: args?.f,
+      assets: args?.assets,
+      receiver: args?.receiver,
+      stakeExpiry: transfer.args.id,
+      futures: getFuturesMinted(receipt),
+    };
+  }
+
+  async unstake(
+    id: BigNumberish,
+    assets: BigNumberish,
+    receiver: string
+  ): Promise<UnstakeResult> {
+    assert(
+      BigNumber.from(id).lte(await this.getPendingTimestamp()),
+      "BeforeStakingExpiry",
+      `spxCVX ${id.toString()} has not expired`
+    );
+    assertAmount(assets, "assets");
+    assertReceiver(receiver);
+
+    const receipt = await (
+      await this.pirexCvx.unstake(id, assets, receiver)
+    ).wait();
+    const { args } = getEvent(receipt, "Unstake");
+
+    return {
+      receipt,
+      id: args?.id,
+      assets: args?.assets,
+      receiver: args?.receiver,
+    };
+  }
+
+  async redeemSnapshotRewards(
+    epoch: BigNumberish,
+    rewardIndexes: BigNumberish[],
+    receiver: string
+  ): Promise<RedeemSnapshotRewardsResult> {
+    const indexes = rewardIndexes.map((index) => BigNumber.from(index));
+
+    assert(!BigNumber.from(epoch).isZero(), "InvalidEpoch", "epoch is zero");
+    assertReceiver(receiver);
+    assert(indexes.length !== 0, "EmptyArray", "rewardIndexes are empty");
+    indexes.forEach((index, idx) =>
+      assert(
+        indexes.findIndex((other) => other.eq(index)) === idx,
+        "AlreadyRedeemed",
+        `rewardIndexes has ${index.toString()} more than once`
+      )
+    );
+
+    const receipt = await (
+      await this.pirexCvx.redeemSnapshotRewards(epoch, rewardIndexes, receiver)
+    ).wait();
+    const { args } = getEvent(receipt, "RedeemSnapshotRewards");
+
+    return {
+      receipt,
+      epoch: args?.epoch,
+      rewardIndexes: args?.rewardIndexes,
+      receiver: args?.receiver,
+      snapshotBalance: args?.snapshotBalance,
+      snapshotSupply: args?.snapshotSupply,
+    };
+  }
+
+  async redeemFuturesRewards(
+    epoch: BigNumberish,
+    receiver: string
+  ): Promise<RedeemFuturesRewardsResult> {
+    // Unlike the other time-based checks, a later block can only let this one pass, so a
+    // call rejected here may still succeed once `epoch` has started
+    const currentEpoch = getEpoch(await this.getPendingTimestamp());
+
+    assert(!BigNumber.from(epoch).isZero(), "InvalidEpoch", "epoch is zero");
+    assert(
+      BigNumber.from(epoch).lte(currentEpoch),
+      "InvalidEpoch",
+      `epoch ${epoch.toString()} is after the current epoch (${currentEpoch})`
+    );
+    assertReceiver(receiver);
+
+    const receipt = await (
+      await this.pirexCvx.redeemFuturesRewards(epoch, receiver)
+    ).wait();
+    const { args } = getEvent(receipt, "RedeemFuturesRewards");
+
+    return {
+      receipt,
+      epoch: args?.epoch,
+      receiver: args?.receiver,
+      rewards: (args?.rewards as string[]).map(getRewardToken),
+    };
+  }
+
+  async exchangeFutures(
+    epoch: BigNumberish,
+    amount: BigNumberish,
+    receiver: string,
+    f: Futures
+  ): Promise<ExchangeFuturesResult> {
+    const currentEpoch = getEpoch(await this.getPendingTimestamp());
+
+    assert(
+      BigNumber.from(epoch).gt(currentEpoch),
+      "PastExchangePeriod",
+      `epoch ${epoch.toString()} is not after the current epoch (${currentEpoch})`
+    );
+    assertAmount(amount, "amount");
+    assertReceiver(receiver);
+
+    const receipt = await (
+      await this.pirexCvx.exchangeFutures(epoch, amount, receiver, f)
+    ).wait();
+    const { args } = getEvent(receipt, "ExchangeFutures");
+
+    return {
+      receipt,
+      epoch: args?.epoch,
+      amount: args?.amount,
+      receiver: args?.receiver,
+      f: args?.f,
+    };
+  }
+}
@@ -1,6 +1,9 @@
 export interface MerkleDistributorInfo {
   merkleRoot: string;
   tokenTotal: string;
+  reasonTotals?: {
+    [reason: string]: string;
+  };
   claims: {
     [account: string]: {
       index: number;
@@ -16,3 +19,247 @@ export interface MerkleDistributorInfo {
 export interface MultiMerkleDistributorInfo {
   [token: string]: MerkleDistributorInfo;
 }
+
+// Mirrors IVotiumMultiMerkleStash.claimParam
+export interface VotiumClaimParam {
+  token: string;
+  index: number;
+  amount: string;
+  merkleProof: string[];
+}
+
+// `index.json` of a distribution whose claims are split into per-address-prefix files
+export interface ShardedDistributionManifest {
+  merkleRoot: string;
+  tokenTotal: string;
+  reasonTotals?: {
+    [reason: string]: string;
+  };
+  claimCount: number;
+  prefixLength: number;
+  shards: {
+    [prefix: string]: {
+      file: string;
+      claimCount: number;
+    };
+  };
+}
+
+export interface DistributionDiff {
+  merkleRoot: {
+    previous: string;
+    next: string;
+  };
+  tokenTotal: {
+    previous: string;
+    next: string;
+    delta: string;
+  };
+  added: {
+    account: string;
+    index: number;
+    amount: string;
+  }[];
+  removed: {
+    account: string;
+    index: number;
+    amount: string;
+  }[];
+  changed: {
+    account: string;
+    previousAmount: string;
+    nextAmount: string;
+    delta: string;
+  }[];
+  reindexed: {
+    account: string;
+    previousIndex: number;
+    nextIndex: number;
+  }[];
+}
+
+// A contract deployed by a deployment step, as recorded in `deployments/<network>.json`
+export interface DeploymentRecord {
+  contract: string;
+  address: string;
+  txHash: string;
+  args: unknown[];
+  // Unset while the deployment transaction is still pending
+  block?: number;
+}
+
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  deployments: {
+    [step: string]: DeploymentRecord;
+  };
+}
+
+// `config/networks/<network>.json`
+export interface NetworkConfig {
+  network: string;
+  chainId: number;
+  external: {
+    cvx: string;
+    cvxLockerV2: string;
+    convexDelegateRegistry: string;
+    votiumMultiMerkleStash: string;
+  };
+  roles: {
+    redactedMultisig: string;
+    pirexMultisig: string;
+    unionDistributor: string;
+  };
+  // Pairs of paths (e.g. `roles.pirexMultisig`) that may intentionally share an address
+  allowedAliases?: [string, string][];
+  // Pirex contracts, keyed by deployment step. Merged with `deployments/<network>.json`
+  contracts: {
+    pxCvx?: string;
+    spxCvx?: string;
+    upxCvx?: string;
+    vpxCvx?: string;
+    rpxCvx?: string;
+    pirexFees?: string;
+    pirexCvx?: string;
+    unionPirexVault?: string;
+    unionPirexStrategy?: string;
+    // Not deployed by deployContracts.ts
+    wpxCvx?: string;
+  };
+}
+
+export interface InvariantResult {
+  group: string;
+  description: string;
+  passed: boolean;
+  expected: string;
+  // Unset when evaluating the invariant threw
+  actual?: string;
+  error?: string;
+}
+
+export interface InvariantReport {
+  network: string;
+  passed: number;
+  failed: number;
+  results: InvariantResult[];
+}
+
+// Batch file imported by the Safe Transaction Builder app
+export interface SafeTransactionBatch {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+    checksum?: string;
+  };
+  transactions: {
+    to: string;
+    value: string;
+    // Left null when `contractMethod` describes the call, as the Transaction Builder does
+    data: string | null;
+    contractMethod: {
+      inputs: { internalType: string; name: string; type: string }[];
+      name: string;
+      payable: boolean;
+    };
+    contractInputsValues: { [input: string]: string };
+  }[];
+}
+
+// Everything needed to verify a recorded deployment, on Etherscan or offline
+export interface VerificationPayload {
+  step: string;
+  // Fully qualified, e.g. `contracts/PirexCvx.sol:PirexCvx`
+  contract: string;
+  address: string;
+  txHash: string;
+  compilerVersion: string;
+  constructorArguments: unknown[];
+  encodedConstructorArguments: string;
+  standardJsonInput: unknown;
+}
+
+export interface RoleHolding {
+  // e.g. `SpxCvx`
+  contract: string;
+  contractAddress: string;
+  // e.g. `owner`, `MINTER_ROLE` or `developer`
+  role: string;
+  holder: string;
+  // Configured names for the holder, e.g. `roles.pirexMultisig`
+  knownAs: string[];
+  isContract: boolean;
+  expected: boolean;
+  // Why the holding was flagged
+  reason?: string;
+  // Set on expected holdings worth a mention, e.g. an emergency executor not initialized yet
+  note?: string;
+}
+
+export interface RoleAuditReport {
+  network: string;
+  fromBlock: number;
+  holdings: RoleHolding[];
+  unexpected: number;
+}
+
+// Amounts are decimal strings in wei
+export interface UnlockTimeReconciliation {
+  // upxCVX id
+  unlockTime: number;
+  // Still locked in CvxLockerV2, 0 once the lock is processed
+  locked: string;
+  // `pirexCvx.redemptions(unlockTime)`
+  redemptions: string;
+  upxCvxMinted: string;
+  upxCvxOutstanding: string;
+  // Outstanding upxCVX by holder
+  holders: { [account: string]: string };
+}
+
+export interface CustodyIssue {
+  // e.g. `custody` or `redemptionAllowance`
+  check: string;
+  message: string;
+  // upxCVX ids (unlock times) or spxCVX ids (stake expiries) responsible. Empty when a
+  // custody drift could not be attributed to any id
+  ids: number[];
+  // Their holders
+  accounts: string[];
+}
+
+export interface CustodyReport {
+  network: string;
+  fromBlock: number;
+  blockNumber: number;
+  timestamp: number;
+  assets: {
+    cvxBalance: string;
+    // Every vlCVX lock, including unlockable ones
+    lockedCvx: string;
+    unlockableCvx: string;
+    total: string;
+  };
+  liabilities: {
+    pxCvxSupply: string;
+    // pxCVX staked for spxCVX
+    spxCvxOutstanding: string;
+    outstandingRedemptions: string;
+    // CVX rewards not yet redeemed by pxCVX snapshot or rpxCVX holders
+    cvxRewards: string;
+    total: string;
+  };
+  // Deposited CVX not locked yet, which must still be in the unlocked balance
+  pendingLocks: string;
+  // `assets.total - liabilities.total`
+  drift: string;
+  unlockTimes: UnlockTimeReconciliation[];
+  issues: CustodyIssue[];
+}
@@ -1,29 +0,0 @@
-// Convex
-export const cvx = '0x4e3FBD56CD56c3e72c1403e103b45Db9da5B9D2B';
-export const cvxLockerV2 = '0x72a19342e8F1838460eBFCCEf09F6585e32db86E';
-export const convexDelegateRegistry =
-  '0x469788fE6E9E9681C6ebF3bF78e7Fd26Fc015446';
-
-// Votium
-export const votiumMultiMerkleStash =
-  '0x378ba9b73309be80bf4c2c027aad799766a7ed5a';
-
-// Redacted
-export const redactedMultisig = '0xA52Fd396891E7A74b641a2Cb1A6999Fcf56B077e';
-
-// Union
-export const unionDistributor = '0x6ED9c171E02De08aaEDF0Fc1D589923D807061D6';
-
-// Pirex
-export const pirexMultisig = '0x6ED9c171E02De08aaEDF0Fc1D589923D807061D6';
-
-// Deployed contracts
-export const pxCvx = '0xbce0cf87f513102f22232436cca2ca49e815c3ac';
-export const spxCvx = '0xe47e8b5b4ee05b7663b15087381bd47bcbd20fc3';
-export const upxCvx = '0x7a3d81cfc5a942abe9ec656eff818f7dab4e0fe1';
-export const vpxCvx = '0xbae47cd0e2f0f687f4ef78f972af13f6cf8f2b76';
-export const rpxCvx = '0xc044613b702ed11567a38108703ac5478a3f7db8';
-export const pirexFees = '0x9b0DfF589FC0AcaC23581ECaFf5688434DB0720F';
-export const pirexCvx = '0x35A398425d9f1029021A92bc3d2557D42C8588D7';
-export const unionPirexVault = '0x8659Fc767cad6005de79AF65dAfE4249C57927AF';
-export const unionPirexStrategy = '0x45F97D07dAB04B21F36fA3b1149c35e316b35d03';
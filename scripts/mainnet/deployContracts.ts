@@ -1,69 +1,75 @@
-import { ethers } from 'hardhat';
-import {
-  cvx,
-  cvxLockerV2,
-  convexDelegateRegistry,
-  votiumMultiMerkleStash,
-  redactedMultisig,
-  unionDistributor,
-  pirexMultisig,
-  pxCvx as pxCvxAddress,
-  spxCvx as spxCvxAddress,
-  upxCvx as upxCvxAddress,
-  vpxCvx as vpxCvxAddress,
-  rpxCvx as rpxCvxAddress,
-} from './constants';
+import hre from 'hardhat';
+import { loadNetworkConfig } from '../../lib/config';
+import { DeploymentStep, runDeploymentSteps } from '../../lib/deployment';
+import { NetworkConfig } from '../../lib/types';
 
-async function main() {
-  // Contract factories
-  const PxCvx = await ethers.getContractFactory('PxCvx');
-  const SpxCvx = await ethers.getContractFactory('ERC1155Solmate');
-  const UpxCvx = await ethers.getContractFactory('ERC1155Solmate');
-  const VpxCvx = await ethers.getContractFactory('ERC1155PresetMinterSupply');
-  const RpxCvx = await ethers.getContractFactory('ERC1155PresetMinterSupply');
-  const PirexFees = await ethers.getContractFactory('PirexFees');
-  const PirexCvx = await ethers.getContractFactory('PirexCvx');
-  const UnionPirexVault = await ethers.getContractFactory('UnionPirexVault');
-  const UnionPirexStrategy = await ethers.getContractFactory(
-    'UnionPirexStrategy'
-  );
-
-  // Deployments
-  const pxCvx = await (await PxCvx.deploy()).deployed();
-  const spxCvx = await (await SpxCvx.deploy()).deployed();
-  const upxCvx = await (await UpxCvx.deploy()).deployed();
-  const vpxCvx = await (await VpxCvx.deploy('')).deployed();
-  const rpxCvx = await (await RpxCvx.deploy('')).deployed();
-  const pirexFees = await PirexFees.deploy(redactedMultisig, pirexMultisig);
-  const pirexCvx = await PirexCvx.deploy(
+// Each step is deployed once per network and recorded in deployments/<network>.json,
+// so rerunning this script skips finished steps and resumes after a failure.
+// To print the remaining steps without deploying: HARDHAT_NETWORK=<network> npx ts-node scripts/mainnet/deployContracts.ts --dry-run
+const getDeploymentSteps = ({
+  external: {
     cvx,
     cvxLockerV2,
     convexDelegateRegistry,
-    pxCvxAddress,
-    upxCvxAddress,
-    spxCvxAddress,
-    vpxCvxAddress,
-    rpxCvxAddress,
-    pirexFees.address,
-    votiumMultiMerkleStash
-  );
-  const unionPirexVault = await UnionPirexVault.deploy(pxCvxAddress);
-  const unionPirexStrategy = await UnionPirexStrategy.deploy(
-    pirexCvx.address,
-    pxCvxAddress,
-    unionDistributor,
-    unionPirexVault.address
-  );
+    votiumMultiMerkleStash,
+  },
+  roles: { redactedMultisig, pirexMultisig, unionDistributor },
+}: NetworkConfig): DeploymentStep[] => [
+  { name: 'pxCvx', contract: 'PxCvx' },
+  { name: 'spxCvx', contract: 'ERC1155Solmate' },
+  { name: 'upxCvx', contract: 'ERC1155Solmate' },
+  { name: 'vpxCvx', contract: 'ERC1155PresetMinterSupply', args: [''] },
+  { name: 'rpxCvx', contract: 'ERC1155PresetMinterSupply', args: [''] },
+  {
+    name: 'pirexFees',
+    contract: 'PirexFees',
+    args: [redactedMultisig, pirexMultisig],
+  },
+  {
+    name: 'pirexCvx',
+    contract: 'PirexCvx',
+    args: (deployed) => [
+      cvx,
+      cvxLockerV2,
+      convexDelegateRegistry,
+      deployed.pxCvx,
+      deployed.upxCvx,
+      deployed.spxCvx,
+      deployed.vpxCvx,
+      deployed.rpxCvx,
+      deployed.pirexFees,
+      votiumMultiMerkleStash,
+    ],
+  },
+  {
+    name: 'unionPirexVault',
+    contract: 'UnionPirexVault',
+    args: (deployed) => [deployed.pxCvx],
+  },
+  {
+    name: 'unionPirexStrategy',
+    contract: 'UnionPirexStrategy',
+    args: (deployed) => [
+      deployed.pirexCvx,
+      deployed.pxCvx,
+      unionDistributor,
+      deployed.unionPirexVault,
+    ],
+  },
+];
 
-  console.log(`pxCvx: ${pxCvx.address}`);
-  console.log(`spxCvx: ${spxCvx.address}`);
-  console.log(`upxCvx: ${upxCvx.address}`);
-  console.log(`vpxCvx: ${vpxCvx.address}`);
-  console.log(`rpxCvx: ${rpxCvx.address}`);
-  console.log(`pirexFees: ${pirexFees.address}`);
-  console.log(`pirexCvx: ${pirexCvx.address}`);
-  console.log(`unionPirexVault: ${unionPirexVault.address}`);
-  console.log(`unionPirexStrategy: ${unionPirexStrategy.address}`);
+async function main() {
+  const config = await loadNetworkConfig(hre);
+  const dryRun = process.argv.slice(2).includes('--dry-run');
+  const deployed = await runDeploymentSteps(hre, getDeploymentSteps(config), {
+    dryRun,
+  });
+
+  if (dryRun) return;
+
+  Object.keys(deployed).forEach((step) =>
+    console.log(`${step}: ${deployed[step]}`)
+  );
 }
 
 main()
@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs';
+import { ethers } from 'hardhat';
+import { DeployedContracts } from '../../lib/config';
+import {
+  ContractCall,
+  createSafeTransactionBatch,
+  formatSafeBatchPreview,
+} from '../../lib/operations';
+import { NetworkConfig } from '../../lib/types';
+
+export function getOption(args: string[], name: string): string | undefined {
+  const position = args.indexOf(name);
+
+  return position === -1 ? undefined : args[position + 1];
+}
+
+export async function getPirexContracts({
+  pxCvx,
+  spxCvx,
+  upxCvx,
+  vpxCvx,
+  rpxCvx,
+  pirexFees,
+  pirexCvx,
+  unionPirexVault,
+  unionPirexStrategy,
+}: DeployedContracts) {
+  return {
+    pxCvxContract: await ethers.getContractAt('PxCvx', pxCvx),
+    spxCvxContract: await ethers.getContractAt('ERC1155Solmate', spxCvx),
+    upxCvxContract: await ethers.getContractAt('ERC1155Solmate', upxCvx),
+    vpxCvxContract: await ethers.getContractAt(
+      'ERC1155PresetMinterSupply',
+      vpxCvx
+    ),
+    rpxCvxContract: await ethers.getContractAt(
+      'ERC1155PresetMinterSupply',
+      rpxCvx
+    ),
+    pirexFeesContract: await ethers.getContractAt('PirexFees', pirexFees),
+    pirexCvxContract: await ethers.getContractAt('PirexCvx', pirexCvx),
+    unionPirexVaultContract: await ethers.getContractAt(
+      'UnionPirexVault',
+      unionPirexVault
+    ),
+    unionPirexStrategyContract: await ethers.getContractAt(
+      'UnionPirexStrategy',
+      unionPirexStrategy
+    ),
+  };
+}
+
+// Writes the calls as a Transaction Builder batch for the Pirex multisig and prints a decoded preview
+export async function writeSafeBatch(
+  output: string,
+  calls: ContractCall[],
+  config: NetworkConfig,
+  name: string
+) {
+  const batch = createSafeTransactionBatch(calls, {
+    chainId: config.chainId,
+    safeAddress: config.roles.pirexMultisig,
+    name,
+  });
+
+  await fs.writeFile(output, `${JSON.stringify(batch, null, 2)}\n`);
+  console.log(formatSafeBatchPreview(calls));
+  console.log(
+    `\nWrote ${calls.length} transactions for ${config.roles.pirexMultisig} to ${output}`
+  );
+}
@@ -0,0 +1,363 @@
+import { BytesLike } from 'ethers';
+import { getDeployedContracts } from '../../lib/config';
+import { Invariant } from '../../lib/invariants';
+import { ContractCall } from '../../lib/operations';
+import { NetworkConfig } from '../../lib/types';
+import { getPirexContracts } from './helpers';
+
+// PirexCvx.Fees values. RedemptionMax must be set before RedemptionMin, which is checked against it
+export const FEES = [
+  { fee: 0, name: 'Reward', value: 40000 },
+  { fee: 1, name: 'RedemptionMax', value: 50000 },
+  { fee: 2, name: 'RedemptionMin', value: 10000 },
+  { fee: 3, name: 'Developers', value: 5000 },
+];
+
+// PirexCvx.Contract.UnionPirexVault
+const UNION_PIREX_VAULT_CONTRACT = 7;
+
+// Post-deployment setup, ending with unpausing PirexCvx
+export async function getConfigurationCalls(
+  config: NetworkConfig
+): Promise<ContractCall[]> {
+  const contracts = getDeployedContracts(config);
+  const { pirexCvx, unionPirexVault, unionPirexStrategy } = contracts;
+  const {
+    pxCvxContract,
+    spxCvxContract,
+    upxCvxContract,
+    vpxCvxContract,
+    rpxCvxContract,
+    pirexCvxContract,
+    unionPirexVaultContract,
+  } = await getPirexContracts(contracts);
+  const MINTER_ROLE = await vpxCvxContract.MINTER_ROLE();
+  // Shared by the ERC1155Solmate and ERC1155PresetMinterSupply contracts
+  const minterWatch = (
+    label: string,
+    contract: {
+      hasRole(role: BytesLike, account: string): Promise<boolean>;
+      MINTER_ROLE(): Promise<string>;
+    }
+  ) => ({
+    name: `${label}.hasRole(MINTER_ROLE, PirexCvx)`,
+    read: async () => contract.hasRole(await contract.MINTER_ROLE(), pirexCvx),
+  });
+
+  return [
+    {
+      label: 'PxCvx',
+      contract: pxCvxContract,
+      method: 'setOperator',
+      args: [pirexCvx],
+      watch: { name: 'PxCvx.operator()', read: () => pxCvxContract.operator() },
+    },
+    ...FEES.map(
+      ({ fee, name, value }): ContractCall => ({
+        label: 'PirexCvx',
+        contract: pirexCvxContract,
+        method: 'setFee',
+        args: [fee, value],
+        note: name,
+        watch: {
+          name: `PirexCvx.fees(${name})`,
+          read: () => pirexCvxContract.fees(fee),
+        },
+      })
+    ),
+    {
+      label: 'PirexCvx',
+      contract: pirexCvxContract,
+      method: 'setContract',
+      args: [UNION_PIREX_VAULT_CONTRACT, unionPirexVault],
+      note: 'UnionPirexVault',
+      watch: {
+        name: 'PirexCvx.unionPirex()',
+        read: () => pirexCvxContract.unionPirex(),
+      },
+    },
+    {
+      label: 'SpxCvx',
+      contract: spxCvxContract,
+      method: 'grantMinterRole',
+      args: [pirexCvx],
+      watch: minterWatch('SpxCvx', spxCvxContract),
+    },
+    {
+      label: 'UpxCvx',
+      contract: upxCvxContract,
+      method: 'grantMinterRole',
+      args: [pirexCvx],
+      watch: minterWatch('UpxCvx', upxCvxContract),
+    },
+    {
+      label: 'VpxCvx',
+      contract: vpxCvxContract,
+      method: 'grantRole',
+      args: [MINTER_ROLE, pirexCvx],
+      note: 'MINTER_ROLE',
+      watch: minterWatch('VpxCvx', vpxCvxContract),
+    },
+    {
+      label: 'RpxCvx',
+      contract: rpxCvxContract,
+      method: 'grantRole',
+      args: [MINTER_ROLE, pirexCvx],
+      note: 'MINTER_ROLE',
+      watch: minterWatch('RpxCvx', rpxCvxContract),
+    },
+    {
+      label: 'UnionPirexVault',
+      contract: unionPirexVaultContract,
+      method: 'setPlatform',
+      args: [config.roles.pirexMultisig],
+      watch: {
+        name: 'UnionPirexVault.platform()',
+        read: () => unionPirexVaultContract.platform(),
+      },
+    },
+    {
+      label: 'UnionPirexVault',
+      contract: unionPirexVaultContract,
+      method: 'setStrategy',
+      args: [unionPirexStrategy],
+      watch: {
+        name: 'UnionPirexVault.strategy()',
+        read: () => unionPirexVaultContract.strategy(),
+      },
+    },
+    {
+      label: 'PirexCvx',
+      contract: pirexCvxContract,
+      method: 'setPauseState',
+      args: [false],
+      watch: {
+        name: 'PirexCvx.paused()',
+        read: () => pirexCvxContract.paused(),
+      },
+    },
+  ];
+}
+
+// Hands every contract from `currentAdmin` (the account sending the calls) to `newOwner`
+export async function getOwnershipTransferCalls(
+  config: NetworkConfig,
+  currentAdmin: string,
+  newOwner: string
+): Promise<ContractCall[]> {
+  const {
+    pxCvxContract,
+    spxCvxContract,
+    upxCvxContract,
+    vpxCvxContract,
+    rpxCvxContract,
+    pirexFeesContract,
+    pirexCvxContract,
+    unionPirexVaultContract,
+    unionPirexStrategyContract,
+  } = await getPirexContracts(getDeployedContracts(config));
+  const DEFAULT_ADMIN_ROLE = await spxCvxContract.DEFAULT_ADMIN_ROLE();
+  const MINTER_ROLE = await spxCvxContract.MINTER_ROLE();
+  const ownables = [
+    { label: 'PxCvx', contract: pxCvxContract },
+    { label: 'PirexFees', contract: pirexFeesContract },
+    { label: 'PirexCvx', contract: pirexCvxContract },
+    { label: 'UnionPirexVault', contract: unionPirexVaultContract },
+    { label: 'UnionPirexStrategy', contract: unionPirexStrategyContract },
+  ];
+  const grantAdmin = (label: string, contract: typeof spxCvxContract) => ({
+    label,
+    contract,
+    method: 'grantRole',
+    args: [DEFAULT_ADMIN_ROLE, newOwner],
+    note: 'DEFAULT_ADMIN_ROLE',
+    watch: {
+      name: `${label}.hasRole(DEFAULT_ADMIN_ROLE, newOwner)`,
+      read: () => contract.hasRole(DEFAULT_ADMIN_ROLE, newOwner),
+    },
+  });
+  const renounce = (
+    label: string,
+    contract: typeof spxCvxContract,
+    role: string,
+    roleName: string
+  ) => ({
+    label,
+    contract,
+    method: 'renounceRole',
+    args: [role, currentAdmin],
+    note: roleName,
+    watch: {
+      name: `${label}.hasRole(${roleName}, currentAdmin)`,
+      read: () => contract.hasRole(role, currentAdmin),
+    },
+  });
+
+  return [
+    // Ownable-based
+    ...ownables.map(
+      ({ label, contract }): ContractCall => ({
+        label,
+        contract,
+        method: 'transferOwnership',
+        args: [newOwner],
+        watch: { name: `${label}.owner()`, read: () => contract.owner() },
+      })
+    ),
+
+    // AccessControl-based - ERC1155Solmate contracts
+    grantAdmin('SpxCvx', spxCvxContract),
+    renounce(
+      'SpxCvx',
+      spxCvxContract,
+      DEFAULT_ADMIN_ROLE,
+      'DEFAULT_ADMIN_ROLE'
+    ),
+    grantAdmin('UpxCvx', upxCvxContract),
+    renounce(
+      'UpxCvx',
+      upxCvxContract,
+      DEFAULT_ADMIN_ROLE,
+      'DEFAULT_ADMIN_ROLE'
+    ),
+
+    // AccessControl-based - ERC1155PresetMinterSupply contracts
+    renounce('VpxCvx', vpxCvxContract, MINTER_ROLE, 'MINTER_ROLE'),
+    grantAdmin('VpxCvx', vpxCvxContract),
+    renounce(
+      'VpxCvx',
+      vpxCvxContract,
+      DEFAULT_ADMIN_ROLE,
+      'DEFAULT_ADMIN_ROLE'
+    ),
+    renounce('RpxCvx', rpxCvxContract, MINTER_ROLE, 'MINTER_ROLE'),
+    grantAdmin('RpxCvx', rpxCvxContract),
+    renounce(
+      'RpxCvx',
+      rpxCvxContract,
+      DEFAULT_ADMIN_ROLE,
+      'DEFAULT_ADMIN_ROLE'
+    ),
+  ];
+}
+
+// Expected state of a configured deployment, once owned by the Pirex multisig and
+// with every role renounced by `deployer`
+export async function getStateInvariants(
+  config: NetworkConfig,
+  deployer: string
+): Promise<Invariant[]> {
+  const contracts = getDeployedContracts(config);
+  const { pirexCvx, unionPirexVault, unionPirexStrategy } = contracts;
+  const { pirexMultisig } = config.roles;
+  const {
+    pxCvxContract,
+    spxCvxContract,
+    upxCvxContract,
+    vpxCvxContract,
+    rpxCvxContract,
+    pirexFeesContract,
+    pirexCvxContract,
+    unionPirexVaultContract,
+    unionPirexStrategyContract,
+  } = await getPirexContracts(contracts);
+  const MINTER_ROLE = await spxCvxContract.MINTER_ROLE();
+  const DEFAULT_ADMIN_ROLE = await spxCvxContract.DEFAULT_ADMIN_ROLE();
+
+  const ownables = [
+    { name: 'PxCvx', contract: pxCvxContract },
+    { name: 'PirexFees', contract: pirexFeesContract },
+    { name: 'PirexCvx', contract: pirexCvxContract },
+    { name: 'UnionPirexVault', contract: unionPirexVaultContract },
+    { name: 'UnionPirexStrategy', contract: unionPirexStrategyContract },
+  ];
+  const tokens = [
+    { name: 'SpxCvx', contract: spxCvxContract },
+    { name: 'UpxCvx', contract: upxCvxContract },
+    { name: 'VpxCvx', contract: vpxCvxContract },
+    { name: 'RpxCvx', contract: rpxCvxContract },
+  ];
+
+  return [
+    {
+      group: 'PxCvx',
+      description: 'Operator is PirexCvx',
+      expected: pirexCvx,
+      actual: () => pxCvxContract.operator(),
+    },
+    ...FEES.map(
+      ({ fee, name, value }): Invariant => ({
+        group: 'PirexCvx fees',
+        description: `${name} fee is set`,
+        expected: value,
+        actual: () => pirexCvxContract.fees(fee),
+      })
+    ),
+    {
+      group: 'PirexCvx',
+      description: 'UnionPirexVault is set',
+      expected: unionPirexVault,
+      actual: () => pirexCvxContract.unionPirex(),
+    },
+    {
+      group: 'PirexCvx',
+      description: 'Unpaused',
+      expected: false,
+      actual: () => pirexCvxContract.paused(),
+    },
+    ...tokens.map(
+      ({ name, contract }): Invariant => ({
+        group: 'PirexCvx minter roles',
+        description: `PirexCvx is a ${name} minter`,
+        expected: true,
+        actual: () => contract.hasRole(MINTER_ROLE, pirexCvx),
+      })
+    ),
+    {
+      group: 'UnionPirexVault',
+      description: 'Platform is the Pirex multisig',
+      expected: pirexMultisig,
+      actual: () => unionPirexVaultContract.platform(),
+    },
+    {
+      group: 'UnionPirexVault',
+      description: 'Strategy is UnionPirexStrategy',
+      expected: unionPirexStrategy,
+      actual: () => unionPirexVaultContract.strategy(),
+    },
+    ...ownables.map(
+      ({ name, contract }): Invariant => ({
+        group: 'Owners',
+        description: `${name} owner is the Pirex multisig`,
+        expected: pirexMultisig,
+        actual: () => contract.owner(),
+      })
+    ),
+    ...tokens.reduce<Invariant[]>(
+      (memo, { name, contract }) => [
+        ...memo,
+        {
+          group: 'Deployer roles',
+          description: `Deployer is not a ${name} minter`,
+          expected: false,
+          actual: () => contract.hasRole(MINTER_ROLE, deployer),
+        },
+        {
+          group: 'Deployer roles',
+          description: `Deployer is not a ${name} admin`,
+          expected: false,
+          actual: () => contract.hasRole(DEFAULT_ADMIN_ROLE, deployer),
+        },
+      ],
+      []
+    ),
+    ...tokens.map(
+      ({ name, contract }): Invariant => ({
+        group: 'Admins',
+        description: `Pirex multisig is a ${name} admin`,
+        expected: true,
+        actual: () => contract.hasRole(DEFAULT_ADMIN_ROLE, pirexMultisig),
+      })
+    ),
+  ];
+}
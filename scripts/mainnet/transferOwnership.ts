@@ -1,77 +1,40 @@
-import { ethers } from 'hardhat';
-import {
-  pxCvx,
-  spxCvx,
-  upxCvx,
-  vpxCvx,
-  rpxCvx,
-  pirexFees,
-  pirexCvx,
-  unionPirexVault,
-  unionPirexStrategy,
-  pirexMultisig,
-} from './constants';
+import hre, { ethers } from 'hardhat';
+import { loadNetworkConfig } from '../../lib/config';
+import { sendContractCalls, simulateContractCalls } from '../../lib/operations';
+import { getOption, writeSafeBatch } from './helpers';
+import { getOwnershipTransferCalls } from './operations';
 
+// Usage: npx hardhat run scripts/mainnet/transferOwnership.ts --network <network>
+// Hands every contract from the deployer to the Pirex multisig. Once the multisig owns them, ownership can
+// be moved on through a Safe batch instead:
+// HARDHAT_NETWORK=<network> npx ts-node scripts/mainnet/transferOwnership.ts --safe <batch.json> --new-owner <address>
+// Add `--dry-run --fork-of mainnet` (against a local fork) to simulate the calls instead, printing every state change
 async function main() {
+  const args = process.argv.slice(2);
+  const safeOutput = getOption(args, '--safe');
+  const config = await loadNetworkConfig(hre, {
+    forkOf: getOption(args, '--fork-of'),
+  });
+  const { pirexMultisig } = config.roles;
+  const newOwner = getOption(args, '--new-owner') || pirexMultisig;
   const [deployer] = await ethers.getSigners();
+  const currentAdmin = safeOutput ? pirexMultisig : deployer.address;
 
-  // Contract instances
-  const pxCvxContract = await ethers.getContractAt('PxCvx', pxCvx);
-  const spxCvxContract = await ethers.getContractAt('ERC1155Solmate', spxCvx);
-  const upxCvxContract = await ethers.getContractAt('ERC1155Solmate', upxCvx);
-  const vpxCvxContract = await ethers.getContractAt(
-    'ERC1155PresetMinterSupply',
-    vpxCvx
-  );
-  const rpxCvxContract = await ethers.getContractAt(
-    'ERC1155PresetMinterSupply',
-    rpxCvx
-  );
-  const pirexFeesContract = await ethers.getContractAt('PirexFees', pirexFees);
-  const pirexCvxContract = await ethers.getContractAt('PirexCvx', pirexCvx);
-  const unionPirexVaultContract = await ethers.getContractAt(
-    'UnionPirexVault',
-    unionPirexVault
-  );
-  const unionPirexStrategyContract = await ethers.getContractAt(
-    'UnionPirexStrategy',
-    unionPirexStrategy
-  );
-  const DEFAULT_ADMIN_ROLE = await spxCvxContract.DEFAULT_ADMIN_ROLE();
-  const MINTER_ROLE = await spxCvxContract.MINTER_ROLE();
-
-  // Ownable-based
-  await (await pxCvxContract.transferOwnership(pirexMultisig)).wait(1);
-  await (await pirexFeesContract.transferOwnership(pirexMultisig)).wait(1);
-  await (await pirexCvxContract.transferOwnership(pirexMultisig)).wait(1);
-  await (await unionPirexVaultContract.transferOwnership(pirexMultisig)).wait(1);
-  await (await unionPirexStrategyContract.transferOwnership(pirexMultisig)).wait(1);
+  if (safeOutput && newOwner.toLowerCase() === pirexMultisig.toLowerCase()) {
+    throw new Error(
+      '--new-owner is required when proposing through the multisig'
+    );
+  }
 
-  // AccessControl-based - ERC1155Solmate contracts
-  await (
-    await spxCvxContract.grantRole(DEFAULT_ADMIN_ROLE, pirexMultisig)
-  ).wait(1);
-  await (await spxCvxContract.renounceRole(DEFAULT_ADMIN_ROLE, deployer.address)).wait(1);
-  await (
-    await upxCvxContract.grantRole(DEFAULT_ADMIN_ROLE, pirexMultisig)
-  ).wait(1);
-  await (await spxCvxContract.renounceRole(DEFAULT_ADMIN_ROLE, deployer.address)).wait(1);
+  const calls = await getOwnershipTransferCalls(config, currentAdmin, newOwner);
 
-  // AccessControl-based - ERC1155PresetMinterSupply contracts
-  await (
-    await vpxCvxContract.renounceRole(MINTER_ROLE, deployer.address)
-  ).wait(1);
-  await (
-    await vpxCvxContract.grantRole(DEFAULT_ADMIN_ROLE, pirexMultisig)
-  ).wait(1);
-  await (await vpxCvxContract.renounceRole(DEFAULT_ADMIN_ROLE, deployer.address)).wait(1);
-  await (
-    await rpxCvxContract.renounceRole(MINTER_ROLE, deployer.address)
-  ).wait(1);
-  await (
-    await rpxCvxContract.grantRole(DEFAULT_ADMIN_ROLE, pirexMultisig)
-  ).wait(1);
-  await (await rpxCvxContract.renounceRole(DEFAULT_ADMIN_ROLE, deployer.address)).wait(1);
+  if (args.includes('--dry-run')) {
+    await simulateContractCalls(hre, calls, currentAdmin);
+  } else if (safeOutput) {
+    await writeSafeBatch(safeOutput, calls, config, 'Transfer Pirex ownership');
+  } else {
+    await sendContractCalls(calls, deployer);
+  }
 }
 
 main()
@@ -0,0 +1,66 @@
+import { createWriteStream, promises as fs } from 'fs';
+import { once } from 'events';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { StreamingDistributionBuilder } from '../../lib/merkle';
+
+// Usage: npx ts-node scripts/merkle/benchmarkStreamingBuilder.ts [leaves]
+const leaves = Number(process.argv[2] || 500000);
+
+function logStep(step: string, startedAt: number) {
+  const { rss, heapUsed } = process.memoryUsage();
+  // Kilobytes
+  const { maxRSS } = process.resourceUsage();
+
+  console.log(
+    `${step}: ${((Date.now() - startedAt) / 1000).toFixed(1)}s, rss ${(
+      rss / 1e6
+    ).toFixed(0)}MB, peak rss ${(maxRSS / 1e3).toFixed(0)}MB, heap ${(
+      heapUsed / 1e6
+    ).toFixed(0)}MB`
+  );
+}
+
+async function main() {
+  const dir = await fs.mkdtemp(join(tmpdir(), 'pirex-merkle-'));
+  const input = join(dir, 'balances.ndjson');
+  const output = join(dir, 'shards');
+  const startedAt = Date.now();
+
+  // Generate random balances without holding them in memory
+  const stream = createWriteStream(input);
+
+  for (let i = 0; i < leaves; ++i) {
+    const line = `${JSON.stringify({
+      address: `0x${randomBytes(20).toString('hex')}`,
+      earnings: BigInt(`0x${randomBytes(12).toString('hex')}`).toString(),
+    })}\n`;
+
+    if (!stream.write(line)) await once(stream, 'drain');
+  }
+
+  stream.end();
+  await once(stream, 'finish');
+  logStep(`Generated ${leaves} balances`, startedAt);
+
+  const builder = new StreamingDistributionBuilder();
+
+  await builder.addFile(input);
+  logStep('Ingested balances', startedAt);
+
+  const { merkleRoot } = builder.build();
+  logStep(`Built tree (root ${merkleRoot})`, startedAt);
+
+  const { shards } = await builder.writeShards(output);
+  logStep(`Wrote ${Object.keys(shards).length} shards`, startedAt);
+
+  await fs.rm(dir, { recursive: true, force: true });
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,39 @@
+import {
+  assertMerkleDistributorInfo,
+  diffDistributions,
+  formatDistributionDiff,
+} from '../../lib/merkle';
+import { loadDistribution } from './helpers';
+
+// Usage: npx ts-node scripts/merkle/diffDistributions.ts <previous> <next> [--json]
+// Each distribution is either a MerkleDistributorInfo JSON file or a sharded distribution directory
+
+async function main() {
+  const args = process.argv.slice(2);
+  const [previousPath, nextPath] = args.filter((arg) => !arg.startsWith('--'));
+
+  if (!previousPath || !nextPath) {
+    throw new Error('Usage: diffDistributions.ts <previous> <next> [--json]');
+  }
+
+  const previous = await loadDistribution(previousPath);
+  const next = await loadDistribution(nextPath);
+
+  assertMerkleDistributorInfo(previous);
+  assertMerkleDistributorInfo(next);
+
+  const diff = diffDistributions(previous, next);
+
+  console.log(
+    args.includes('--json')
+      ? JSON.stringify(diff, null, 2)
+      : formatDistributionDiff(diff)
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,11 @@
+import { promises as fs } from 'fs';
+import { readShardedDistribution } from '../../lib/merkle';
+
+// Loads a distribution JSON file or a sharded distribution directory
+export async function loadDistribution(path: string): Promise<unknown> {
+  if ((await fs.stat(path)).isDirectory()) {
+    return await readShardedDistribution(path);
+  }
+
+  return JSON.parse(await fs.readFile(path, 'utf8'));
+}
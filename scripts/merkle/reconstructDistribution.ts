@@ -0,0 +1,106 @@
+import {
+  BalanceMapValidationError,
+  distributorEncodings,
+  readBalanceFile,
+  reconstructDistribution,
+  validateBalanceMap,
+  validateMerkleDistributorInfoStructure,
+} from '../../lib/merkle';
+import { MerkleDistributorInfo } from '../../lib/types';
+import { loadDistribution } from './helpers';
+
+// Usage: npx ts-node scripts/merkle/reconstructDistribution.ts <merkleRoot> <balances> [--published <distribution>] [--encoding votium|uniswap|openZeppelin] [--json]
+// The balances file is the parseBalanceMap input (JSON, or CSV/NDJSON as read by readBalanceStream), and the published distribution is a JSON file or a sharded distribution directory
+const VALUE_OPTIONS = ['--published', '--encoding'];
+
+function getOption(args: string[], name: string): string | undefined {
+  const position = args.indexOf(name);
+
+  return position === -1 ? undefined : args[position + 1];
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const publishedPath = getOption(args, '--published');
+  const encodingName = getOption(args, '--encoding') || 'votium';
+  // Skips flags and the values of the options taking one, but not arguments after --json
+  const [merkleRoot, balancesPath] = args.filter(
+    (arg, idx) =>
+      !arg.startsWith('--') && !VALUE_OPTIONS.includes(args[idx - 1])
+  );
+
+  if (!merkleRoot || !balancesPath) {
+    throw new Error(
+      'Usage: reconstructDistribution.ts <merkleRoot> <balances> [--published <distribution>] [--encoding votium|uniswap|openZeppelin] [--json]'
+    );
+  }
+  if (!(encodingName in distributorEncodings)) {
+    throw new Error(`Unknown encoding: ${encodingName}`);
+  }
+
+  const { balances, lines } = await readBalanceFile(balancesPath);
+  // Checked here too, so the issues point at lines of the balances file
+  const balanceIssues = validateBalanceMap(balances, undefined, lines);
+
+  if (balanceIssues.length !== 0) {
+    throw new BalanceMapValidationError(balanceIssues);
+  }
+
+  let published: MerkleDistributorInfo | undefined;
+
+  if (publishedPath) {
+    const distribution = await loadDistribution(publishedPath);
+    // Proofs are not asserted, since the reconstruction reports those that fail
+    const issues = validateMerkleDistributorInfoStructure(distribution);
+
+    if (issues.length !== 0) {
+      throw new Error(
+        [
+          'Invalid MerkleDistributorInfo',
+          ...issues.map(({ path, message }) => `  ${path}: ${message}`),
+        ].join('\n')
+      );
+    }
+
+    published = distribution as MerkleDistributorInfo;
+  }
+
+  const report = reconstructDistribution(merkleRoot, balances, {
+    encoding:
+      distributorEncodings[encodingName as keyof typeof distributorEncodings],
+    published,
+  });
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else if (report.matches) {
+    console.log(`Rebuilt root ${report.rebuiltRoot} matches`);
+
+    report.suspects.forEach(({ account, reason, message }) =>
+      console.log(`  ${account} (${reason}): ${message}`)
+    );
+  } else {
+    console.log(
+      `Rebuilt root ${report.rebuiltRoot} does not match ${report.publishedRoot}`
+    );
+
+    if (report.matchedVariant) {
+      console.log(
+        `Published root reproduced with ${report.matchedVariant.description}`
+      );
+    }
+
+    report.suspects.forEach(({ account, reason, message }) =>
+      console.log(`  ${account} (${reason}): ${message}`)
+    );
+  }
+
+  return report.matches && report.suspects.length === 0;
+}
+
+main()
+  .then((matches) => process.exit(matches ? 0 : 1))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,46 @@
+import {
+  DistributorInfoIssue,
+  validateMerkleDistributorInfo,
+  validateMultiMerkleDistributorInfo,
+} from '../../lib/merkle';
+import { loadDistribution } from './helpers';
+
+// Usage: npx ts-node scripts/merkle/validateDistribution.ts <distribution> [--json]
+// Accepts a MerkleDistributorInfo or MultiMerkleDistributorInfo JSON file, or a sharded distribution directory
+async function main() {
+  const args = process.argv.slice(2);
+  const [path] = args.filter((arg) => !arg.startsWith('--'));
+
+  if (!path) {
+    throw new Error('Usage: validateDistribution.ts <distribution> [--json]');
+  }
+
+  const distribution = await loadDistribution(path);
+  const isMulti =
+    typeof distribution === 'object' &&
+    distribution !== null &&
+    !('merkleRoot' in distribution);
+  const issues: DistributorInfoIssue[] = isMulti
+    ? validateMultiMerkleDistributorInfo(distribution)
+    : validateMerkleDistributorInfo(distribution);
+
+  if (args.includes('--json')) {
+    console.log(
+      JSON.stringify({ valid: issues.length === 0, issues }, null, 2)
+    );
+  } else if (issues.length === 0) {
+    console.log(`${path} is valid`);
+  } else {
+    console.log(`${path} has ${issues.length} issue(s)`);
+    issues.forEach(({ path, message }) => console.log(`  ${path}: ${message}`));
+  }
+
+  return issues.length === 0;
+}
+
+main()
+  .then((valid) => process.exit(valid ? 0 : 1))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
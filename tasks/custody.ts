@@ -0,0 +1,72 @@
+import { task, types } from 'hardhat/config';
+import { getDeployedContracts, loadNetworkConfig } from '../lib/config';
+import { readDeploymentManifest } from '../lib/deployment';
+
+// Checks that the CVX held by PirexCvx covers every claim on it and fails on any drift.
+// The reconciliation is imported in the action since it needs typechain-types, which
+// only exist after compiling
+task(
+  'reconcile-custody',
+  'Reconciles the CVX held and locked by PirexCvx with pxCVX, spxCVX, upxCVX and unredeemed CVX rewards'
+)
+  .addOptionalParam(
+    'fromBlock',
+    'Block to replay upxCVX, spxCVX and reward redemption events from (defaults to the earliest recorded deployment, required without one)',
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    'blockNumber',
+    'Block to reconcile at (defaults to the latest)',
+    undefined,
+    types.int
+  )
+  .addOptionalParam('tolerance', 'Drift in wei tolerated either way', '0')
+  .addOptionalParam(
+    'forkOf',
+    "Reconcile a local fork using the forked network's configuration"
+  )
+  .addFlag('json', 'Print the report as JSON')
+  .setAction(
+    async ({ fromBlock, blockNumber, tolerance, forkOf, json }, hre) => {
+      const { formatCustodyReport, reconcileCustody } = await import(
+        '../lib/accounting'
+      );
+      const { PirexCvx__factory } = await import('../typechain-types');
+      const config = await loadNetworkConfig(hre, { forkOf });
+      const { chainId } = await hre.ethers.provider.getNetwork();
+      const { deployments } = await readDeploymentManifest(
+        config.network,
+        forkOf ? config.chainId : chainId
+      );
+      const blocks = Object.keys(deployments)
+        .map((step) => deployments[step].block)
+        .filter((block): block is number => block !== undefined);
+      const { pirexCvx } = getDeployedContracts(config);
+
+      // Replaying from genesis would scan the whole chain
+      if (fromBlock === undefined && blocks.length === 0) {
+        throw new Error(
+          `No deployment blocks recorded for ${config.network}, pass --from-block`
+        );
+      }
+
+      const report = await reconcileCustody(
+        PirexCvx__factory.connect(pirexCvx, hre.ethers.provider),
+        config.network,
+        {
+          fromBlock: fromBlock ?? Math.min(...blocks),
+          blockNumber,
+          tolerance,
+        }
+      );
+
+      console.log(
+        json ? JSON.stringify(report, null, 2) : formatCustodyReport(report)
+      );
+
+      if (report.issues.length !== 0) {
+        throw new Error(`Found ${report.issues.length} custody issue(s)`);
+      }
+    }
+  );
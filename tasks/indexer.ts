@@ -0,0 +1,85 @@
+import { task, types } from 'hardhat/config';
+import { getDeployedContracts, loadNetworkConfig } from '../lib/config';
+import { readDeploymentManifest } from '../lib/deployment';
+
+// Stores the Pirex contracts' events in SQLite, resuming from the last sync.
+// The indexer is imported in the action: it needs typechain-types (only there after
+// compiling) and the native better-sqlite3 module, neither of which the config may load
+task(
+  'index-events',
+  'Indexes the events of PirexCvx, PxCvx, PirexFees, UnionPirexVault and WpxCvx into SQLite'
+)
+  .addOptionalParam(
+    'db',
+    'SQLite file to index into (defaults to data/events/<network>.sqlite)'
+  )
+  .addOptionalParam(
+    'fromBlock',
+    'Block to index contracts without a recorded deployment from (defaults to the earliest recorded deployment)',
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    'confirmations',
+    'Blocks behind the head left for the next sync',
+    0,
+    types.int
+  )
+  .addOptionalParam(
+    'batchSize',
+    'Blocks per eth_getLogs request',
+    2000,
+    types.int
+  )
+  .addOptionalParam(
+    'forkOf',
+    "Index a local fork using the forked network's configuration"
+  )
+  .setAction(
+    async ({ db, fromBlock, confirmations, batchSize, forkOf }, hre) => {
+      const {
+        EventStore,
+        getEventStorePath,
+        getPirexEventSources,
+        syncEvents,
+      } = await import('../lib/indexer');
+      const config = await loadNetworkConfig(hre, { forkOf });
+      const { chainId } = await hre.ethers.provider.getNetwork();
+      const { deployments } = await readDeploymentManifest(
+        config.network,
+        forkOf ? config.chainId : chainId
+      );
+      const blocks = Object.keys(deployments)
+        .map((step) => deployments[step].block)
+        .filter((block): block is number => block !== undefined);
+      const sources = getPirexEventSources(
+        { ...getDeployedContracts(config), wpxCvx: config.contracts.wpxCvx },
+        fromBlock ?? (blocks.length ? Math.min(...blocks) : 0),
+        Object.keys(deployments).reduce<{ [step: string]: number | undefined }>(
+          (memo, step) => ({ ...memo, [step]: deployments[step].block }),
+          {}
+        )
+      );
+      const store = new EventStore(
+        db || getEventStorePath(hre.network.name),
+        chainId
+      );
+
+      try {
+        const { rolledBackTo, toBlock, events } = await syncEvents(
+          hre.ethers.provider,
+          store,
+          sources,
+          { confirmations, batchSize }
+        );
+
+        if (rolledBackTo !== undefined) {
+          console.log(`Rolled back a reorg to block ${rolledBackTo}`);
+        }
+
+        console.log(`Indexed ${events} event(s) up to block ${toBlock}`);
+      } finally {
+        store.close();
+      }
+    }
+  );
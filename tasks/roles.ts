@@ -0,0 +1,120 @@
+import { task, types } from 'hardhat/config';
+import { auditRoles, formatRoleAuditReport } from '../lib/audit';
+import { getDeployedContracts, loadNetworkConfig } from '../lib/config';
+import { readDeploymentManifest } from '../lib/deployment';
+
+// Lists every owner and role holder of the Pirex contracts and fails if any is unexpected
+task(
+  'audit-roles',
+  'Enumerates owners, AccessControl role members, the emergency executor and developers of the Pirex contracts'
+)
+  .addOptionalParam(
+    'deployer',
+    'Deployer address, flagged wherever it still holds a role (defaults to the first signer)'
+  )
+  .addOptionalParam(
+    'fromBlock',
+    'Block to replay role events from (defaults to the earliest recorded deployment, required without one)',
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    'forkOf',
+    "Audit a local fork using the forked network's configuration"
+  )
+  .addFlag('json', 'Print the report as JSON')
+  .setAction(async ({ deployer, fromBlock, forkOf, json }, hre) => {
+    const config = await loadNetworkConfig(hre, { forkOf });
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const { deployments } = await readDeploymentManifest(
+      config.network,
+      forkOf ? config.chainId : chainId
+    );
+    const blocks = Object.keys(deployments)
+      .map((step) => deployments[step].block)
+      .filter((block): block is number => block !== undefined);
+
+    // Replaying from genesis would scan the whole chain
+    if (fromBlock === undefined && blocks.length === 0) {
+      throw new Error(
+        `No deployment blocks recorded for ${config.network}, pass --from-block`
+      );
+    }
+
+    const deployerAddress =
+      deployer || (await hre.ethers.getSigners())[0].address;
+    const {
+      pxCvx,
+      spxCvx,
+      upxCvx,
+      vpxCvx,
+      rpxCvx,
+      pirexFees,
+      pirexCvx,
+      unionPirexVault,
+      unionPirexStrategy,
+    } = getDeployedContracts(config);
+    const { wpxCvx } = config.contracts;
+    const { pirexMultisig } = config.roles;
+
+    const report = await auditRoles(
+      hre.ethers.provider,
+      config.network,
+      [
+        { name: 'PxCvx', address: pxCvx, ownable: true },
+        { name: 'SpxCvx', address: spxCvx, accessControl: true },
+        { name: 'UpxCvx', address: upxCvx, accessControl: true },
+        { name: 'VpxCvx', address: vpxCvx, accessControl: true },
+        { name: 'RpxCvx', address: rpxCvx, accessControl: true },
+        { name: 'PirexFees', address: pirexFees, ownable: true },
+        { name: 'PirexCvx', address: pirexCvx, ownable: true, pirexCvx: true },
+        { name: 'UnionPirexVault', address: unionPirexVault, ownable: true },
+        {
+          name: 'UnionPirexStrategy',
+          address: unionPirexStrategy,
+          ownable: true,
+        },
+        ...(wpxCvx ? [{ name: 'WpxCvx', address: wpxCvx, ownable: true }] : []),
+      ],
+      {
+        fromBlock: fromBlock ?? Math.min(...blocks),
+        labels: {
+          deployer: deployerAddress,
+          ...Object.keys(config.roles).reduce<{ [name: string]: string }>(
+            (memo, key) => ({
+              ...memo,
+              [`roles.${key}`]: config.roles[key as keyof typeof config.roles],
+            }),
+            {}
+          ),
+          ...Object.keys(config.contracts).reduce<{ [name: string]: string }>(
+            (memo, key) => ({
+              ...memo,
+              [`contracts.${key}`]: String(
+                config.contracts[key as keyof typeof config.contracts]
+              ),
+            }),
+            {}
+          ),
+        },
+        rules: {
+          owner: { allowed: [pirexMultisig] },
+          DEFAULT_ADMIN_ROLE: { allowed: [pirexMultisig] },
+          MINTER_ROLE: { allowed: [pirexCvx] },
+          // Documented as a non-Pirex multisig, able to act independently of it
+          emergencyExecutor: {
+            forbidden: { [pirexMultisig]: 'Must not be the Pirex multisig' },
+          },
+        },
+        forbidden: { [deployerAddress]: 'Still held by the deployer' },
+      }
+    );
+
+    console.log(
+      json ? JSON.stringify(report, null, 2) : formatRoleAuditReport(report)
+    );
+
+    if (report.unexpected !== 0) {
+      throw new Error(`Found ${report.unexpected} unexpected role holder(s)`);
+    }
+  });
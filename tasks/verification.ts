@@ -0,0 +1,61 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { task } from 'hardhat/config';
+import {
+  checkVerificationPayload,
+  getVerificationPayload,
+  readDeploymentManifest,
+} from '../lib/deployment';
+
+// Writes verify/<network>/<step>.json for every deployment in deployments/<network>.json
+task(
+  'verification-payloads',
+  'Builds verification payloads (standard JSON input and encoded constructor arguments) from the deployment manifest'
+)
+  .addOptionalParam('out', 'Output directory', 'verify')
+  .addFlag('check', 'Check each payload against its deployment transaction')
+  .addFlag('submit', 'Submit each payload to Etherscan')
+  .setAction(async ({ out, check, submit }, hre) => {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const { deployments } = await readDeploymentManifest(
+      hre.network.name,
+      chainId
+    );
+    const dir = join(out, hre.network.name);
+    let failed = false;
+
+    await fs.mkdir(dir, { recursive: true });
+
+    for (const step of Object.keys(deployments)) {
+      const record = deployments[step];
+
+      if (record.block === undefined) {
+        console.log(`${step}: skipped, deployment is still pending`);
+        continue;
+      }
+
+      const payload = await getVerificationPayload(hre, step, record);
+      const file = join(dir, `${step}.json`);
+
+      await fs.writeFile(file, `${JSON.stringify(payload, null, 2)}\n`);
+      console.log(
+        `${step}: ${payload.contract} at ${payload.address} -> ${file}`
+      );
+
+      if (check) {
+        const problems = await checkVerificationPayload(hre, payload);
+
+        problems.forEach((problem) => console.log(`  ${problem}`));
+        failed = failed || problems.length !== 0;
+      }
+      if (submit) {
+        await hre.run('verify:verify', {
+          address: payload.address,
+          constructorArguments: payload.constructorArguments,
+          contract: payload.contract,
+        });
+      }
+    }
+
+    if (failed) throw new Error('Some payloads do not match their deployment');
+  });
@@ -0,0 +1,251 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { BigNumber } from 'ethers';
+import {
+  ConvexToken,
+  CvxLockerV2,
+  MultiMerkleStash,
+  PirexCvx,
+  PxCvx,
+} from '../typechain-types';
+import { increaseBlockTimestamp, toBN } from './helpers';
+import { reconcileCustody } from '../lib/accounting';
+import { getVotiumClaimParams, parseMultiBalanceMap } from '../lib/merkle';
+
+// Tests the CVX custody reconciliation against stake, redemption and reward flows
+describe('CustodyReconciliation', function () {
+  let admin: SignerWithAddress;
+  let notAdmin: SignerWithAddress;
+  let pxCvx: PxCvx;
+  let pirexCvx: PirexCvx;
+  let cvx: ConvexToken;
+  let cvxLocker: CvxLockerV2;
+  let votiumMultiMerkleStash: MultiMerkleStash;
+  let zeroAddress: string;
+  let futuresEnum: any;
+  let fromBlock: number;
+  let chainSnapshotId: string;
+  let unlockTime: BigNumber;
+
+  const reconcile = (tolerance: BigNumber = toBN(0)) =>
+    reconcileCustody(pirexCvx, 'hardhat', { fromBlock, tolerance });
+
+  before(async function () {
+    ({
+      admin,
+      notAdmin,
+      pxCvx,
+      pirexCvx,
+      cvx,
+      cvxLocker,
+      votiumMultiMerkleStash,
+      zeroAddress,
+      futuresEnum,
+    } = this);
+
+    // Leave the chain as it was for the other tests
+    chainSnapshotId = await ethers.provider.send('evm_snapshot', []);
+    fromBlock = (await pirexCvx.deployTransaction.wait()).blockNumber;
+
+    if (await pirexCvx.paused()) await pirexCvx.setPauseState(false);
+  });
+
+  after(async function () {
+    await ethers.provider.send('evm_revert', [chainSnapshotId]);
+  });
+
+  describe('reconcileCustody', function () {
+    it('Should reconcile deposits before and after locking', async function () {
+      const assets = toBN(10e18);
+
+      await cvx.approve(pirexCvx.address, assets);
+      await pirexCvx.deposit(assets, admin.address, false, zeroAddress);
+
+      const pending = await reconcile();
+
+      await pirexCvx.lock();
+
+      const locked = await reconcile();
+
+      expect(pending.issues).to.deep.equal([]);
+      expect(pending.pendingLocks).to.equal(assets.toString());
+      expect(pending.assets.cvxBalance).to.equal(assets.toString());
+      expect(pending.liabilities.pxCvxSupply).to.equal(assets.toString());
+      expect(locked.issues).to.deep.equal([]);
+      expect(locked.pendingLocks).to.equal('0');
+      expect(locked.assets.lockedCvx).to.equal(assets.toString());
+      expect(locked.drift).to.equal('0');
+    });
+
+    it('Should reconcile stakes', async function () {
+      const assets = toBN(1e18);
+
+      // Also mints the rpxCVX that share the rewards claimed later
+      await pirexCvx.stake(52, futuresEnum.reward, assets, admin.address);
+
+      const report = await reconcile();
+
+      expect(report.issues).to.deep.equal([]);
+      expect(report.liabilities.spxCvxOutstanding).to.equal(assets.toString());
+      expect(report.drift).to.equal('0');
+    });
+
+    it('Should reconcile initiated redemptions until their unlock', async function () {
+      const assets = toBN(2e18);
+      const lockIndex = 0;
+
+      ({ unlockTime } = (
+        await cvxLocker.lockedBalances(pirexCvx.address)
+      ).lockData[lockIndex]);
+
+      await pirexCvx.initiateRedemptions(
+        [lockIndex],
+        futuresEnum.vote,
+        [assets],
+        admin.address
+      );
+
+      const initiated = await reconcile();
+      const { timestamp } = await ethers.provider.getBlock('latest');
+
+      await increaseBlockTimestamp(Number(unlockTime.sub(timestamp).add(1)));
+
+      const unlocked = await reconcile();
+
+      expect(initiated.issues).to.deep.equal([]);
+      expect(initiated.liabilities.outstandingRedemptions).to.equal(
+        assets.toString()
+      );
+      expect(initiated.unlockTimes).to.deep.equal([
+        {
+          unlockTime: unlockTime.toNumber(),
+          locked: toBN(10e18).toString(),
+          redemptions: assets.toString(),
+          upxCvxMinted: assets.toString(),
+          upxCvxOutstanding: assets.toString(),
+          holders: { [admin.address]: assets.toString() },
+        },
+      ]);
+      expect(unlocked.issues).to.deep.equal([]);
+      expect(unlocked.assets.unlockableCvx).to.equal(toBN(10e18).toString());
+    });
+
+    it('Should reconcile redemptions', async function () {
+      const assets = toBN(2e18);
+      const upxCvx = await this.getUpxCvx(await pirexCvx.upxCvx());
+
+      await upxCvx.setApprovalForAll(pirexCvx.address, true);
+      await pirexCvx.redeem([unlockTime], [assets], admin.address);
+
+      const report = await reconcile();
+
+      expect(report.issues).to.deep.equal([]);
+      expect(report.liabilities.outstandingRedemptions).to.equal('0');
+      expect(report.unlockTimes[0].upxCvxOutstanding).to.equal('0');
+      expect(report.unlockTimes[0].holders).to.deep.equal({});
+      expect(report.drift).to.equal('0');
+    });
+
+    it('Should reconcile claimed and redeemed CVX rewards', async function () {
+      const amount = toBN(1e18);
+      const votiumDistribution = parseMultiBalanceMap({
+        [cvx.address]: { [pirexCvx.address]: amount.toString() },
+      });
+
+      await cvx.transfer(votiumMultiMerkleStash.address, amount);
+      await votiumMultiMerkleStash.updateMerkleRoot(
+        cvx.address,
+        votiumDistribution[cvx.address].merkleRoot
+      );
+      await pirexCvx.claimVotiumRewards(
+        getVotiumClaimParams(votiumDistribution, pirexCvx.address)
+      );
+
+      const rewardEpoch = await pirexCvx.getCurrentEpoch();
+      const rpxCvx = await this.getRpxCvx(await pirexCvx.rpxCvx());
+      const { futuresRewards } = await pxCvx.getEpoch(rewardEpoch);
+      const claimed = await reconcile();
+
+      await rpxCvx.setApprovalForAll(pirexCvx.address, true);
+      await pirexCvx.redeemSnapshotRewards(rewardEpoch, [0], admin.address);
+      await pirexCvx.redeemFuturesRewards(rewardEpoch, admin.address);
+
+      const redeemed = await reconcile();
+
+      expect(futuresRewards[0].gt(0)).to.equal(true);
+      expect(claimed.issues).to.deep.equal([]);
+      expect(claimed.liabilities.cvxRewards).to.equal(amount.toString());
+      expect(claimed.drift).to.equal('0');
+      expect(redeemed.issues).to.deep.equal([]);
+      // The only snapshot and rpxCVX holder redeemed everything
+      expect(redeemed.liabilities.cvxRewards).to.equal('0');
+      expect(redeemed.drift).to.equal('0');
+    });
+
+    it('Should flag drift beyond the tolerance', async function () {
+      const surplus = toBN(1e17);
+
+      await cvx.transfer(pirexCvx.address, surplus);
+
+      const flagged = await reconcile();
+      const tolerated = await reconcile(surplus);
+
+      expect(flagged.drift).to.equal(surplus.toString());
+      expect(flagged.issues).to.deep.equal([
+        {
+          check: 'custody',
+          message: `${flagged.assets.total} CVX held, ${flagged.liabilities.total} owed: over by ${surplus}. Not attributable to any upxCVX or spxCVX id, so check pxCVX, the CVX rewards and CVX sent to PirexCvx directly`,
+          ids: [],
+          accounts: [],
+        },
+      ]);
+      expect(tolerated.issues).to.deep.equal([]);
+    });
+
+    it('Should attribute drift to the ids with missed transfers', async function () {
+      const assets = toBN(1e18);
+      const spxCvx = await this.getSpxCvx(await pirexCvx.spxCvx());
+      const stakeBlock = (
+        await (
+          await pirexCvx.stake(1, futuresEnum.reward, assets, admin.address)
+        ).wait()
+      ).blockNumber;
+      const [{ args }] = await spxCvx.queryFilter(
+        spxCvx.filters.TransferSingle(),
+        stakeBlock,
+        stakeBlock
+      );
+      const id = args.id.toNumber();
+
+      await spxCvx.safeTransferFrom(
+        admin.address,
+        notAdmin.address,
+        id,
+        assets.div(2),
+        '0x'
+      );
+
+      // Starts after the stake, so only the transfer is replayed
+      const report = await reconcileCustody(pirexCvx, 'hardhat', {
+        fromBlock: stakeBlock + 1,
+      });
+      const custody = report.issues.find(({ check }) => check === 'custody');
+
+      expect(
+        report.issues.filter(({ check }) => check === 'spxCvxLedger')
+      ).to.deep.equal([
+        {
+          check: 'spxCvxLedger',
+          message: `spxCVX ${id}: replayed balances differ from balanceOf, so transfers were missed (replayed from block ${
+            stakeBlock + 1
+          })`,
+          ids: [id],
+          accounts: [admin.address],
+        },
+      ]);
+      expect(custody?.ids).to.include(id);
+      expect(custody?.accounts).to.include(admin.address);
+    });
+  });
+});
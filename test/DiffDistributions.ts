@@ -0,0 +1,80 @@
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import {
+  diffDistributions,
+  formatDistributionDiff,
+  parseBalanceMap,
+} from '../lib/merkle';
+
+// Tests the account by account comparison of two distribution rounds
+describe('DiffDistributions', function () {
+  // Named so the sorted order, and so the claim indexes, are known
+  const [alice, bob, carol, dave] = ['1', '2', '3', '4'].map((n) =>
+    utils.getAddress(`0x${n.repeat(40)}`)
+  );
+  const previous = parseBalanceMap({
+    [alice]: '100',
+    [bob]: '200',
+    [carol]: '300',
+  });
+  const next = parseBalanceMap({
+    [alice]: '100',
+    [carol]: '250',
+    [dave]: '400',
+  });
+
+  describe('diffDistributions', function () {
+    it('Should report added, removed, changed and reindexed accounts', async function () {
+      expect(diffDistributions(previous, next)).to.deep.equal({
+        merkleRoot: { previous: previous.merkleRoot, next: next.merkleRoot },
+        tokenTotal: { previous: '600', next: '750', delta: '150' },
+        added: [{ account: dave, index: 2, amount: '400' }],
+        removed: [{ account: bob, index: 1, amount: '200' }],
+        changed: [
+          {
+            account: carol,
+            previousAmount: '300',
+            nextAmount: '250',
+            delta: '-50',
+          },
+        ],
+        reindexed: [{ account: carol, previousIndex: 2, nextIndex: 1 }],
+      });
+    });
+
+    it('Should report no differences between identical rounds', async function () {
+      const diff = diffDistributions(previous, previous);
+
+      expect(diff.tokenTotal.delta).to.equal('0');
+      expect(diff.added).to.deep.equal([]);
+      expect(diff.removed).to.deep.equal([]);
+      expect(diff.changed).to.deep.equal([]);
+      expect(diff.reindexed).to.deep.equal([]);
+    });
+  });
+
+  describe('formatDistributionDiff', function () {
+    it('Should list each difference', async function () {
+      expect(
+        formatDistributionDiff(diffDistributions(previous, next))
+      ).to.equal(
+        [
+          `Merkle root: ${previous.merkleRoot} -> ${next.merkleRoot}`,
+          'Token total: 600 -> 750 (+150)',
+          '',
+          'Added accounts (1)',
+          `  ${dave} #2: 400`,
+          '',
+          'Removed accounts (1)',
+          `  ${bob} #1: 200`,
+          '',
+          'Changed amounts (1)',
+          `  ${carol}: 300 -> 250 (-50)`,
+          '',
+          'Reindexed accounts (1)',
+          `  ${carol}: #2 -> #1`,
+        ].join('\n')
+      );
+    });
+  });
+});
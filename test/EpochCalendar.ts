@@ -0,0 +1,119 @@
+import { expect } from 'chai';
+import {
+  formatEpochCalendar,
+  Futures,
+  getEpoch,
+  getLockWeek,
+  getLockWeeks,
+  getNextEpoch,
+  getRedemptionEvents,
+  getRedemptionRounds,
+  getRedemptionTokenIds,
+  getStakeEvents,
+  getStakeTokenIds,
+  getUnlockTime,
+} from '../lib/pirex';
+
+// Tests the epoch and lock week arithmetic against fixed timestamps
+describe('EpochCalendar', function () {
+  const week = 604800;
+  // 2022-07-07 00:00 UTC, the start of an epoch (and of a Convex lock week)
+  const epoch = 1657152000;
+  const nextEpoch = 1658361600;
+
+  describe('getEpoch', function () {
+    it('Should round down to the start of the epoch', async function () {
+      expect(getEpoch(epoch)).to.equal(epoch);
+      expect(getEpoch(epoch + week + 100)).to.equal(epoch);
+      expect(getEpoch(nextEpoch - 1)).to.equal(epoch);
+      expect(getNextEpoch(epoch + 100)).to.equal(nextEpoch);
+    });
+  });
+
+  describe('getLockWeek', function () {
+    it('Should round down to the start of the Convex lock week', async function () {
+      expect(getLockWeek(epoch + 100)).to.equal(epoch);
+      expect(getLockWeek(epoch + week + 100)).to.equal(epoch + week);
+      expect(getLockWeeks(epoch)).to.deep.equal([epoch, epoch + week]);
+    });
+  });
+
+  describe('getUnlockTime', function () {
+    it('Should unlock 16 weeks after the lock week following the lock', async function () {
+      // 2022-11-03 and 2022-11-10 00:00 UTC
+      expect(getUnlockTime(epoch + 100)).to.equal(1667433600);
+      expect(getUnlockTime(epoch + week + 100)).to.equal(1668038400);
+    });
+  });
+
+  describe('getStakeTokenIds', function () {
+    it('Should expire the stake and mint futures for the following epochs', async function () {
+      expect(getStakeTokenIds(3, epoch + 100)).to.deep.equal({
+        tokenId: 1660780800,
+        rounds: 3,
+        futuresIds: [nextEpoch, 1659571200, 1660780800],
+      });
+    });
+  });
+
+  describe('getRedemptionRounds', function () {
+    it('Should count the full epochs until the unlock', async function () {
+      expect(getRedemptionRounds(1667433600, epoch + 100)).to.equal(8);
+      expect(getRedemptionTokenIds(1667433600, epoch + 100)).to.deep.equal({
+        tokenId: 1667433600,
+        rounds: 8,
+        futuresIds: [...Array(8).keys()].map(
+          (round) => nextEpoch + round * 2 * week
+        ),
+      });
+    });
+
+    it('Should add a round for locks made in the first week of an epoch', async function () {
+      // Unlocks mid-epoch, between one and two weeks away
+      expect(
+        getRedemptionRounds(epoch + 3 * week, epoch + week + 100)
+      ).to.equal(1);
+      // Unlocks mid-epoch, but within a week
+      expect(getRedemptionRounds(epoch + 3 * week, nextEpoch + 100)).to.equal(
+        0
+      );
+      // Between one and two weeks away, but at the start of an epoch
+      expect(
+        getRedemptionRounds(epoch + 4 * week, nextEpoch + week / 2)
+      ).to.equal(0);
+    });
+  });
+
+  describe('formatEpochCalendar', function () {
+    it('Should list the events in each epoch', async function () {
+      const events = [
+        ...getRedemptionEvents(epoch + 3 * week, Futures.Vote, epoch + week),
+        ...getStakeEvents(1, Futures.Reward, epoch + 100),
+      ];
+
+      expect(formatEpochCalendar(epoch + 100, events)).to.equal(
+        [
+          `Epoch ${epoch}: 2022-07-07 00:00 UTC to 2022-07-21 00:00 UTC (current)`,
+          `  Convex lock weeks ${epoch}, ${epoch + week}`,
+          `Epoch ${nextEpoch}: 2022-07-21 00:00 UTC to 2022-08-04 00:00 UTC`,
+          `  Convex lock weeks ${nextEpoch}, ${nextEpoch + week}`,
+          `  2022-07-21 00:00 UTC vpxCVX ${nextEpoch}`,
+          `  2022-07-21 00:00 UTC rpxCVX ${nextEpoch}`,
+          `  2022-07-21 00:00 UTC spxCVX ${nextEpoch} expires`,
+          `  2022-07-28 00:00 UTC upxCVX ${epoch + 3 * week} unlocks`,
+        ].join('\n')
+      );
+    });
+
+    it('Should list the given number of epochs without events', async function () {
+      expect(formatEpochCalendar(nextEpoch - 1, [], 1)).to.equal(
+        [
+          `Epoch ${epoch}: 2022-07-07 00:00 UTC to 2022-07-21 00:00 UTC (current)`,
+          `  Convex lock weeks ${epoch}, ${epoch + week}`,
+          `Epoch ${nextEpoch}: 2022-07-21 00:00 UTC to 2022-08-04 00:00 UTC`,
+          `  Convex lock weeks ${nextEpoch}, ${nextEpoch + week}`,
+        ].join('\n')
+      );
+    });
+  });
+});
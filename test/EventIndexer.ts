@@ -0,0 +1,157 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import {
+  ConvexToken,
+  PirexCvx,
+  PirexFees,
+  PxCvx,
+  UnionPirexVault,
+} from '../typechain-types';
+import { toBN } from './helpers';
+import {
+  EventSource,
+  EventStore,
+  getPirexEventSources,
+  syncEvents,
+} from '../lib/indexer';
+
+// Tests the event indexer against the local chain, including its reorg handling
+describe('EventIndexer', function () {
+  let admin: SignerWithAddress;
+  let pxCvx: PxCvx;
+  let pirexCvx: PirexCvx;
+  let pirexFees: PirexFees;
+  let unionPirex: UnionPirexVault;
+  let cvx: ConvexToken;
+  let zeroAddress: string;
+  let store: EventStore;
+  let sources: EventSource[];
+  let chainSnapshotId: string;
+
+  const assets = toBN(1e18);
+
+  const deposit = async () => {
+    await cvx.approve(pirexCvx.address, assets);
+    await pirexCvx.deposit(assets, admin.address, false, zeroAddress);
+  };
+
+  before(async function () {
+    ({ admin, pxCvx, pirexCvx, pirexFees, unionPirex, cvx, zeroAddress } =
+      this);
+
+    // Leave the chain as it was for the other tests
+    chainSnapshotId = await ethers.provider.send('evm_snapshot', []);
+
+    if (await pirexCvx.paused()) await pirexCvx.setPauseState(false);
+
+    store = new EventStore(
+      ':memory:',
+      (await ethers.provider.getNetwork()).chainId
+    );
+    sources = getPirexEventSources(
+      {
+        pirexCvx: pirexCvx.address,
+        pxCvx: pxCvx.address,
+        pirexFees: pirexFees.address,
+        unionPirexVault: unionPirex.address,
+      },
+      await ethers.provider.getBlockNumber()
+    );
+  });
+
+  after(async function () {
+    store.close();
+
+    await ethers.provider.send('evm_revert', [chainSnapshotId]);
+  });
+
+  describe('syncEvents', function () {
+    it('Should index the events of every source', async function () {
+      await deposit();
+
+      const { rolledBackTo, toBlock, events } = await syncEvents(
+        ethers.provider,
+        store,
+        sources
+      );
+      const depositEvents = store.getEvents({
+        contract: 'PirexCvx',
+        event: 'Deposit',
+      });
+      const mintEvents = store
+        .getEvents({ contract: 'PxCvx', event: 'Transfer' })
+        .filter(({ args }) => args.from === zeroAddress);
+
+      expect(rolledBackTo).to.equal(undefined);
+      expect(toBlock).to.equal(await ethers.provider.getBlockNumber());
+      expect(events).to.equal(store.getEvents().length);
+      expect(depositEvents.length).to.equal(1);
+      expect(depositEvents[0].args).to.deep.equal({
+        assets: assets.toString(),
+        receiver: admin.address,
+        shouldCompound: false,
+        developer: zeroAddress,
+      });
+      expect(mintEvents.length).to.equal(1);
+      expect(mintEvents[0].transactionHash).to.equal(
+        depositEvents[0].transactionHash
+      );
+    });
+
+    it('Should resume from the last indexed block', async function () {
+      const eventsBefore = store.getEvents().length;
+      const { events } = await syncEvents(ethers.provider, store, sources);
+
+      await deposit();
+
+      const { events: newEvents } = await syncEvents(
+        ethers.provider,
+        store,
+        sources
+      );
+
+      expect(events).to.equal(0);
+      expect(newEvents).to.not.equal(0);
+      expect(store.getEvents().length).to.equal(eventsBefore + newEvents);
+      expect(
+        store.getEvents({ contract: 'PirexCvx', event: 'Deposit' }).length
+      ).to.equal(2);
+    });
+
+    it('Should roll back events from reorged blocks', async function () {
+      const canonicalBlock = await ethers.provider.getBlockNumber();
+      const reorgSnapshotId = await ethers.provider.send('evm_snapshot', []);
+
+      await deposit();
+      await syncEvents(ethers.provider, store, sources);
+
+      const depositsBeforeReorg = store.getEvents({
+        contract: 'PirexCvx',
+        event: 'Deposit',
+      }).length;
+
+      // Replace the deposit's blocks with empty ones
+      await ethers.provider.send('evm_revert', [reorgSnapshotId]);
+      await ethers.provider.send('evm_mine', []);
+      await ethers.provider.send('evm_mine', []);
+      await ethers.provider.send('evm_mine', []);
+
+      const { rolledBackTo, toBlock } = await syncEvents(
+        ethers.provider,
+        store,
+        sources
+      );
+
+      expect(depositsBeforeReorg).to.equal(3);
+      expect(rolledBackTo).to.equal(canonicalBlock);
+      expect(toBlock).to.equal(canonicalBlock + 3);
+      expect(
+        store.getEvents({ contract: 'PirexCvx', event: 'Deposit' }).length
+      ).to.equal(2);
+      expect(store.getEvents({ fromBlock: canonicalBlock + 1 })).to.deep.equal(
+        []
+      );
+    });
+  });
+});
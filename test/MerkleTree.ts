@@ -0,0 +1,262 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import { BalanceTree, MerkleTree, MultiProof } from '../lib/merkle';
+
+// Tests the multiproofs against OpenZeppelin's MerkleProof.multiProofVerify semantics
+describe('MerkleTree', function () {
+  const claims = [1, 2, 3, 4, 5, 6, 7, 8].map((n, index) => ({
+    index,
+    account: utils.getAddress(utils.hexZeroPad(utils.hexlify(n * 0x1111), 20)),
+    amount: utils.parseEther(n.toString()),
+  }));
+  // Leaves in tree order, i.e. sorted by hash
+  const leaves = claims
+    .map(({ index, account, amount }) =>
+      BalanceTree.toNode(index, account, amount)
+    )
+    .sort(Buffer.compare);
+  const tree = new MerkleTree(leaves);
+  const root = tree.getRoot();
+
+  // Port of OpenZeppelin 4.9 MerkleProof.processMultiProof, throwing where it reverts
+  const processMultiProof = ({
+    leaves,
+    proof,
+    proofFlags,
+  }: MultiProof<Buffer>): string => {
+    const hashPair = (a: string, b: string) =>
+      utils.keccak256(utils.concat(a < b ? [a, b] : [b, a]));
+    const totalHashes = proofFlags.length;
+    const hashes: string[] = [];
+    let leafPos = 0;
+    let hashPos = 0;
+    let proofPos = 0;
+
+    if (leaves.length + proof.length - 1 !== totalHashes) {
+      throw new Error('MerkleProof: invalid multiproof');
+    }
+
+    const next = () => {
+      if (leafPos < leaves.length) return utils.hexlify(leaves[leafPos++]);
+      if (hashPos >= totalHashes) throw new Error('Out of bounds');
+
+      // Unwritten memory reads as zero
+      return hashes[hashPos++] ?? utils.hexZeroPad('0x', 32);
+    };
+
+    for (let i = 0; i < totalHashes; ++i) {
+      const a = next();
+      let b: string;
+
+      if (proofFlags[i]) {
+        b = next();
+      } else if (proofPos < proof.length) {
+        b = utils.hexlify(proof[proofPos++]);
+      } else {
+        throw new Error('Out of bounds');
+      }
+
+      hashes[i] = hashPair(a, b);
+    }
+
+    if (totalHashes > 0) {
+      if (proofPos !== proof.length) {
+        throw new Error('MerkleProof: invalid multiproof');
+      }
+
+      return hashes[totalHashes - 1];
+    }
+
+    return utils.hexlify(leaves.length > 0 ? leaves[0] : proof[0]);
+  };
+
+  const multiProofVerify = (multiProof: MultiProof<Buffer>) => {
+    try {
+      return processMultiProof(multiProof) === tree.getHexRoot();
+    } catch {
+      return false;
+    }
+  };
+
+  describe('getMultiProof', function () {
+    it('Should match the single-leaf proof', async function () {
+      const {
+        leaves: proven,
+        proof,
+        proofFlags,
+      } = tree.getMultiProof([leaves[5]]);
+
+      expect(proven).to.deep.equal([leaves[5]]);
+      expect(proof).to.deep.equal(tree.getProof(leaves[5]));
+      expect(proofFlags).to.deep.equal([false, false, false]);
+      expect(
+        MerkleTree.verifyMultiProof({ leaves: proven, proof, proofFlags }, root)
+      ).to.equal(true);
+    });
+
+    it('Should prove every leaf without proof elements', async function () {
+      const multiProof = tree.getMultiProof([...leaves].reverse());
+
+      expect(multiProof.leaves).to.deep.equal(leaves);
+      expect(multiProof.proof).to.deep.equal([]);
+      expect(multiProof.proofFlags).to.deep.equal(
+        new Array(leaves.length - 1).fill(true)
+      );
+      expect(MerkleTree.verifyMultiProof(multiProof, root)).to.equal(true);
+      expect(multiProofVerify(multiProof)).to.equal(true);
+    });
+
+    it('Should ignore the order and duplicates of the given leaves', async function () {
+      const sorted = tree.getMultiProof([leaves[1], leaves[4], leaves[6]]);
+      const unsorted = tree.getMultiProof([
+        leaves[6],
+        leaves[1],
+        leaves[4],
+        leaves[1],
+        leaves[6],
+      ]);
+
+      expect(unsorted).to.deep.equal(sorted);
+      expect(MerkleTree.verifyMultiProof(unsorted, root)).to.equal(true);
+    });
+
+    it('Should produce proofs that multiProofVerify accepts for every subset of leaves', async function () {
+      for (let subset = 1; subset < 2 ** leaves.length; ++subset) {
+        const multiProof = tree.getMultiProof(
+          leaves.filter((_, idx) => subset & (2 ** idx))
+        );
+
+        expect(multiProofVerify(multiProof), `subset ${subset}`).to.equal(true);
+        expect(MerkleTree.verifyMultiProof(multiProof, root)).to.equal(true);
+      }
+    });
+
+    it('Should revert if the leaves cannot share a multiproof', async function () {
+      // The fifth leaf is promoted past the bottom layer, after the verifier used the other leaves
+      const unevenTree = new MerkleTree(leaves.slice(0, 5));
+
+      expect(() => unevenTree.getMultiProof([leaves[0], leaves[4]])).to.throw(
+        'Elements cannot be proven with a single multiproof (promoted leaf)'
+      );
+      expect(() => tree.getMultiProof([Buffer.alloc(32)])).to.throw(
+        'Element does not exist in Merkle tree'
+      );
+    });
+  });
+
+  describe('verifyMultiProof', function () {
+    it('Should accept a multiproof built by @openzeppelin/merkle-tree', async function () {
+      // SimpleMerkleTree.of(claimLeaves).getMultiProof([1, 4, 6]) with @openzeppelin/merkle-tree
+      // 1.0.8, where claimLeaves are the leaves in claim order
+      const multiProof = {
+        leaves: [claims[1], claims[4], claims[6]]
+          .map(({ index, account, amount }) =>
+            BalanceTree.toNode(index, account, amount)
+          )
+          .sort(Buffer.compare),
+        proof: [
+          '0x72b57839573031e2bb0ad5c3497e4ff692d07db66beadac66a82c84496bd66f2',
+          '0xc91fdf0f4f0e31059ef8c61c023759c7a8c8f047a4922b6a2e960665e68ea62f',
+          '0xf0b9f5da175e04c7e3de2e49597bde6c810e4701f4bcae1825134946af944da9',
+          '0x4d8f0de65d42b0a7006b8e7d84b690169a98555a5cab12ee64ea451b1f1a706a',
+        ].map((node) => Buffer.from(node.slice(2), 'hex')),
+        proofFlags: [false, false, false, false, true, true],
+      };
+
+      expect(tree.getHexRoot()).to.equal(
+        '0x7177421cb4bfcc617bfefba0b03199b18a3acc605465461b6cb1a940727d1984'
+      );
+      expect(MerkleTree.verifyMultiProof(multiProof, root)).to.equal(true);
+      expect(multiProofVerify(multiProof)).to.equal(true);
+    });
+
+    it('Should reject tampered multiproofs like multiProofVerify', async function () {
+      const multiProof = tree.getMultiProof([leaves[0], leaves[3], leaves[5]]);
+      const { proof, proofFlags } = multiProof;
+      const flipped = proofFlags.findIndex((flag) => flag);
+      const tampered: MultiProof<Buffer>[] = [
+        // Altered proof element
+        {
+          ...multiProof,
+          proof: [
+            Buffer.from(utils.keccak256(proof[0]).slice(2), 'hex'),
+          ].concat(proof.slice(1)),
+        },
+        // Swapped proof elements
+        { ...multiProof, proof: [...proof].reverse() },
+        // Flipped flags
+        {
+          ...multiProof,
+          proofFlags: proofFlags.map((flag, idx) =>
+            idx === flipped ? !flag : flag
+          ),
+        },
+        { ...multiProof, proofFlags: [...proofFlags].reverse() },
+        // Missing or foreign leaf
+        { ...multiProof, leaves: multiProof.leaves.slice(1) },
+        { ...multiProof, leaves: [leaves[1], ...multiProof.leaves.slice(1)] },
+        // Leaves out of tree order
+        { ...multiProof, leaves: [...multiProof.leaves].reverse() },
+      ];
+
+      expect(MerkleTree.verifyMultiProof(multiProof, root)).to.equal(true);
+
+      tampered.forEach((tamperedProof, idx) => {
+        expect(multiProofVerify(tamperedProof), `case ${idx}`).to.equal(false);
+        expect(
+          MerkleTree.verifyMultiProof(tamperedProof, root),
+          `case ${idx}`
+        ).to.equal(false);
+      });
+    });
+  });
+
+  describe('BalanceTree', function () {
+    const balanceTree = new BalanceTree(claims);
+    const toBuffers = (nodes: string[]) =>
+      nodes.map((node) => Buffer.from(node.slice(2), 'hex'));
+
+    it('Should build and verify multiproofs for claims in any order', async function () {
+      const proven = [claims[6], claims[2], claims[2], claims[0]];
+      const {
+        leaves: provenLeaves,
+        proof,
+        proofFlags,
+      } = balanceTree.getMultiProof(proven);
+
+      expect(balanceTree.getHexRoot()).to.equal(tree.getHexRoot());
+      expect(
+        multiProofVerify({
+          leaves: toBuffers(provenLeaves),
+          proof: toBuffers(proof),
+          proofFlags,
+        })
+      ).to.equal(true);
+      expect(
+        BalanceTree.verifyMultiProof(proven, toBuffers(proof), proofFlags, root)
+      ).to.equal(true);
+    });
+
+    it('Should reject multiproofs for altered claims', async function () {
+      const proven = [claims[1], claims[5]];
+      const { proof, proofFlags } = balanceTree.getMultiProof(proven);
+
+      expect(
+        BalanceTree.verifyMultiProof(
+          [claims[1], { ...claims[5], amount: claims[5].amount.add(1) }],
+          toBuffers(proof),
+          proofFlags,
+          root
+        )
+      ).to.equal(false);
+      expect(
+        BalanceTree.verifyMultiProof(
+          [claims[1], { ...claims[5], index: BigNumber.from(6) }],
+          toBuffers(proof),
+          proofFlags,
+          root
+        )
+      ).to.equal(false);
+    });
+  });
+});
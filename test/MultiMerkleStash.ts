@@ -0,0 +1,219 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { BigNumber, utils } from 'ethers';
+import { Crv, MultiMerkleStash } from '../typechain-types';
+import { toBN } from './helpers';
+import {
+  BalanceTree,
+  DistributorEncoding,
+  abiLeafEncoder,
+  distributorEncodings,
+  packedLeafEncoder,
+  positionalPairHasher,
+  sortedPairHasher,
+} from '../lib/merkle';
+
+// Cross-checks the lib/merkle encodings against the Votium MultiMerkleStash mock
+describe('MultiMerkleStash', function () {
+  let votiumMultiMerkleStash: MultiMerkleStash;
+  let token: Crv;
+  let balances: { account: string; amount: BigNumber }[];
+
+  const toBuffer = (hex: string) => Buffer.from(hex.slice(2), 'hex');
+
+  // Leaves and pair hashing computed independently of lib/merkle
+  const solidityLeaf = (index: number, account: string, amount: BigNumber) =>
+    utils.solidityKeccak256(
+      ['uint256', 'address', 'uint256'],
+      [index, account, amount]
+    );
+  const abiLeaf = (index: number, account: string, amount: BigNumber) =>
+    utils.keccak256(
+      utils.defaultAbiCoder.encode(
+        ['uint256', 'address', 'uint256'],
+        [index, account, amount]
+      )
+    );
+  const sortedPair = (a: string, b: string) =>
+    utils.keccak256(utils.concat(a < b ? [a, b] : [b, a]));
+  const positionalPair = (left: string, right: string) =>
+    utils.keccak256(utils.concat([left, right]));
+  // Unpaired nodes are promoted to the next layer without hashing
+  const getRoot = (
+    leaves: string[],
+    hashPair: (a: string, b: string) => string
+  ): string => {
+    let layer = leaves;
+
+    while (layer.length > 1) {
+      const next: string[] = [];
+
+      for (let idx = 0; idx < layer.length; idx += 2) {
+        next.push(
+          idx + 1 < layer.length
+            ? hashPair(layer[idx], layer[idx + 1])
+            : layer[idx]
+        );
+      }
+
+      layer = next;
+    }
+
+    return layer[0];
+  };
+  // What MultiMerkleStash.claim checks: packed leaf, sorted pairs
+  const votiumAccepts = (
+    index: number,
+    account: string,
+    amount: BigNumber,
+    proof: string[],
+    root: string
+  ) => proof.reduce(sortedPair, solidityLeaf(index, account, amount)) === root;
+
+  before(async function () {
+    // Odd number of accounts to exercise promoted nodes
+    const accounts: SignerWithAddress[] = (await ethers.getSigners()).slice(
+      0,
+      5
+    );
+
+    balances = accounts.map(({ address }, idx) => ({
+      account: address,
+      amount: toBN(1e18).mul(idx + 1),
+    }));
+
+    // Workaround for Typescript not acknowledging deploy method
+    const v: any = await ethers.getContractFactory('MultiMerkleStash');
+    votiumMultiMerkleStash = await v.deploy();
+    token = await (await ethers.getContractFactory('Crv')).deploy();
+
+    await token.mint(votiumMultiMerkleStash.address, toBN(100e18));
+  });
+
+  describe('claim', function () {
+    it('Should accept proofs built with the Votium encoding', async function () {
+      const tree = new BalanceTree(balances, distributorEncodings.votium);
+
+      await votiumMultiMerkleStash.updateMerkleRoot(
+        token.address,
+        tree.getHexRoot()
+      );
+
+      for (const [index, { account, amount }] of balances.entries()) {
+        const balanceBefore = await token.balanceOf(account);
+
+        await votiumMultiMerkleStash.claim(
+          token.address,
+          index,
+          account,
+          amount,
+          tree.getProof(index, account, amount)
+        );
+
+        expect(await token.balanceOf(account)).to.equal(
+          balanceBefore.add(amount)
+        );
+      }
+    });
+
+    const encodings: {
+      name: string;
+      encoding: DistributorEncoding;
+      getExpectedRoot: () => string;
+    }[] = [
+      {
+        name: 'abi.encode leaves',
+        encoding: {
+          leafEncoder: abiLeafEncoder,
+          pairHasher: sortedPairHasher,
+        },
+        getExpectedRoot: () =>
+          getRoot(
+            balances
+              .map(({ account, amount }, index) =>
+                abiLeaf(index, account, amount)
+              )
+              .sort(),
+            sortedPair
+          ),
+      },
+      {
+        name: 'OpenZeppelin double-hashed leaves',
+        encoding: distributorEncodings.openZeppelin,
+        getExpectedRoot: () =>
+          getRoot(
+            balances
+              .map(({ account, amount }, index) =>
+                utils.keccak256(abiLeaf(index, account, amount))
+              )
+              .sort(),
+            sortedPair
+          ),
+      },
+      {
+        name: 'positional pairs',
+        encoding: {
+          leafEncoder: packedLeafEncoder,
+          pairHasher: positionalPairHasher,
+        },
+        // Leaves stay in index order
+        getExpectedRoot: () =>
+          getRoot(
+            balances.map(({ account, amount }, index) =>
+              solidityLeaf(index, account, amount)
+            ),
+            positionalPair
+          ),
+      },
+    ];
+
+    encodings.forEach(({ name, encoding, getExpectedRoot }) => {
+      it(`Should only accept ${name} proofs that verify with the Votium encoding`, async function () {
+        const tree = new BalanceTree(balances, encoding);
+        const root = tree.getHexRoot();
+        const accepted: boolean[] = [];
+
+        expect(root).to.equal(getExpectedRoot());
+
+        await votiumMultiMerkleStash.updateMerkleRoot(token.address, root);
+
+        for (const [index, { account, amount }] of balances.entries()) {
+          const proof = tree.getProof(index, account, amount);
+
+          expect(
+            BalanceTree.verifyProof(
+              index,
+              account,
+              amount,
+              proof.map(toBuffer),
+              toBuffer(root),
+              { ...encoding, leafCount: tree.getLeafCount() }
+            )
+          ).to.equal(true);
+
+          const claim = votiumMultiMerkleStash.callStatic.claim(
+            token.address,
+            index,
+            account,
+            amount,
+            proof
+          );
+
+          if (votiumAccepts(index, account, amount, proof, root)) {
+            accepted.push(true);
+            await expect(claim).to.not.be.reverted;
+          } else {
+            accepted.push(false);
+            await expect(claim).to.be.revertedWith('Invalid proof.');
+          }
+        }
+
+        // Other leaf encodings never match the leaves the stash hashes
+        if (encoding.leafEncoder !== packedLeafEncoder) {
+          expect(accepted.every((isAccepted) => !isAccepted)).to.equal(true);
+        }
+      });
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import { basename } from 'path';
+import { providers, utils } from 'ethers';
+import {
+  DEFAULT_CONFIG_DIR,
+  readNetworkConfig,
+  validateNetworkConfig,
+} from '../lib/config';
+import { NetworkConfig } from '../lib/types';
+
+// Tests that the shipped network configurations pass validation
+describe('NetworkConfig', function () {
+  let networks: string[];
+
+  // A chain where every configured address has code, and whose UnionPirexStrategy
+  // pays out to `distributor`
+  const getProvider = (config: NetworkConfig, distributor: string) =>
+    ({
+      _isProvider: true,
+      getNetwork: async () => ({
+        chainId: config.chainId,
+        name: config.network,
+      }),
+      getCode: async () => '0x00',
+      call: async () =>
+        utils.defaultAbiCoder.encode(['address'], [distributor]),
+    } as unknown as providers.Provider);
+
+  before(async function () {
+    networks = (await fs.readdir(DEFAULT_CONFIG_DIR))
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => basename(file, '.json'));
+  });
+
+  describe('validateNetworkConfig', function () {
+    it('Should accept each shipped configuration', async function () {
+      expect(networks).to.include.members(['mainnet', 'localhost']);
+
+      for (const network of networks) {
+        const config = await readNetworkConfig(network);
+        const provider = getProvider(config, config.roles.unionDistributor);
+
+        expect(config.network).to.equal(network);
+        expect(await validateNetworkConfig(config, provider)).to.deep.equal([]);
+      }
+    });
+
+    it('Should reject shared addresses not listed in allowedAliases', async function () {
+      const config = await readNetworkConfig('mainnet');
+      const { pirexMultisig, unionDistributor } = config.roles;
+      const provider = getProvider(config, unionDistributor);
+
+      delete config.allowedAliases;
+
+      expect(await validateNetworkConfig(config, provider)).to.deep.equal([
+        {
+          path: 'roles.unionDistributor',
+          message: `Same address as roles.pirexMultisig (${pirexMultisig}); add both to allowedAliases if intended`,
+        },
+      ]);
+    });
+
+    it('Should reject a distributor the strategy does not pay out to', async function () {
+      const config = await readNetworkConfig('mainnet');
+      const distributor = utils.getAddress(
+        utils.hexDataSlice(utils.id('distributor'), 12)
+      );
+
+      expect(
+        await validateNetworkConfig(config, getProvider(config, distributor))
+      ).to.deep.equal([
+        {
+          path: 'roles.unionDistributor',
+          message: `UnionPirexStrategy.distributor() is ${distributor}`,
+        },
+      ]);
+    });
+  });
+});
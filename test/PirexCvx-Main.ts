@@ -2,7 +2,7 @@ import { expect } from 'chai';
 import { ethers } from 'hardhat';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { BigNumber } from 'ethers';
-import { every } from 'lodash';
+import { every, flatten, uniq } from 'lodash';
 import {
   callAndReturnEvents,
   toBN,
@@ -18,6 +18,7 @@ import {
   PxCvx,
   UnionPirexVault,
 } from '../typechain-types';
+import { quoteRedemptions } from '../lib/pirex';
 
 // Tests the actual deposit flow (deposit, stake/unstake, redeem...)
 describe('PirexCvx-Main', function () {
@@ -534,6 +535,97 @@ describe('PirexCvx-Main', function () {
         pirexCvx.initiateRedemptions(lockIndexes, f, invalidAssets, receiver)
       ).to.be.revertedWith('InsufficientRedemptionAllowance()');
     });
+
+    it('Should charge and mint exactly as quoted off-chain', async function () {
+      // Reverted at the end so the redemptions do not affect later tests
+      const snapshotId = await ethers.provider.send('evm_snapshot', []);
+      const lockData: { amount: BigNumber; unlockTime: number }[] = (
+        await cvxLocker.lockedBalances(pirexCvx.address)
+      ).lockData;
+      const redemptions = await Promise.all(
+        lockData.map(({ unlockTime }) => pirexCvx.redemptions(unlockTime))
+      );
+      const lockIndexes = lockData
+        .map((_, idx) => idx)
+        .filter((idx) =>
+          lockData[idx].amount.sub(redemptions[idx]).div(10).gt(0)
+        );
+      const assets = lockIndexes.map((idx) =>
+        lockData[idx].amount.sub(redemptions[idx]).div(10)
+      );
+      const totalAssets = assets.reduce((sum, a) => sum.add(a), toBN(0));
+      const f = futuresEnum.vote;
+      const receiver = admin.address;
+      const upxCvx = await this.getUpxCvx(await pirexCvx.upxCvx());
+      const vpxCvx = await this.getVpxCvx(await pirexCvx.vpxCvx());
+
+      await cvx.approve(pirexCvx.address, totalAssets);
+      await pirexCvx.deposit(totalAssets, admin.address, false, zeroAddress);
+
+      const events = await callAndReturnEvents(pirexCvx.initiateRedemptions, [
+        lockIndexes,
+        f,
+        assets,
+        receiver,
+      ]);
+      const { blockNumber } = events[0];
+      const before = { blockTag: blockNumber - 1 };
+      const { timestamp } = await ethers.provider.getBlock(blockNumber);
+      const quote = quoteRedemptions(lockData, lockIndexes, assets, {
+        timestamp,
+        feeMin: await pirexCvx.fees(feesEnum.redemptionMin),
+        feeMax: await pirexCvx.fees(feesEnum.redemptionMax),
+        redemptions: lockData.reduce(
+          (memo, { unlockTime }, idx) => ({
+            ...memo,
+            [unlockTime.toString()]: redemptions[idx],
+          }),
+          {}
+        ),
+      });
+      const mintFuturesEvents = events.filter(
+        ({ event }: any) => event === 'MintFutures'
+      );
+      const futuresIds = uniq(
+        flatten(quote.quotes.map(({ futuresIds }) => futuresIds))
+      );
+
+      expect(quote.totalAssets).to.equal(totalAssets);
+      expect(await pxCvx.balanceOf(admin.address)).to.equal(
+        (await pxCvx.balanceOf(admin.address, before)).sub(totalAssets)
+      );
+      expect(await pirexCvx.outstandingRedemptions()).to.equal(
+        (await pirexCvx.outstandingRedemptions(before)).add(
+          totalAssets.sub(quote.feeAmount)
+        )
+      );
+
+      for (const [idx, quoted] of quote.quotes.entries()) {
+        const { unlockTime, postFeeAmount, rounds } = quoted;
+
+        expect(mintFuturesEvents[idx].args.rounds).to.equal(rounds);
+        expect(await pirexCvx.redemptions(unlockTime)).to.equal(
+          quote.redemptions[unlockTime.toString()]
+        );
+        expect(await upxCvx.balanceOf(receiver, unlockTime)).to.equal(
+          (await upxCvx.balanceOf(receiver, unlockTime, before)).add(
+            postFeeAmount
+          )
+        );
+      }
+
+      for (const id of futuresIds) {
+        const minted = quote.quotes
+          .filter(({ futuresIds }) => futuresIds.includes(id))
+          .reduce((sum, { assets }) => sum.add(assets), toBN(0));
+
+        expect(await vpxCvx.balanceOf(receiver, id)).to.equal(
+          (await vpxCvx.balanceOf(receiver, id, before)).add(minted)
+        );
+      }
+
+      await ethers.provider.send('evm_revert', [snapshotId]);
+    });
   });
 
   describe('redeem', function () {
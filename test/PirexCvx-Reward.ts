@@ -18,7 +18,16 @@ import {
   PirexFees,
   PxCvx,
 } from '../typechain-types';
-import { BalanceTree } from '../lib/merkle';
+import {
+  BalanceTree,
+  parseMultiBalanceMap,
+  getVotiumClaimParams,
+} from '../lib/merkle';
+import {
+  getClaimableRewards,
+  getRewardForecast,
+  reconcileRewardForecast,
+} from '../lib/pirex';
 
 // Tests the rewards related logic
 describe('PirexCvx-Reward', function () {
@@ -153,6 +162,10 @@ describe('PirexCvx-Reward', function () {
       const contributorsCrvBalanceBefore = await crv.balanceOf(
         contributors.address
       );
+      const forecast = await getRewardForecast(pirexCvx, [
+        { token: tokens[0], amount: amounts[0] },
+        { token: tokens[1], amount: amounts[1] },
+      ]);
       const events = await callAndReturnEvents(pirexCvx.claimVotiumRewards, [
         votiumRewards,
       ]);
@@ -233,6 +246,22 @@ describe('PirexCvx-Reward', function () {
       expect(votiumFuturesRewards).to.deep.equal(
         expectedVotiumFuturesRewards.amounts
       );
+      expect(
+        reconcileRewardForecast(forecast, {
+          rewards,
+          snapshotRewards,
+          futuresRewards,
+        }).every(({ matches }) => matches)
+      ).to.equal(true);
+      expect(
+        forecast.splits.map(({ treasuryFee, contributorsFee }) => [
+          treasuryFee,
+          contributorsFee,
+        ])
+      ).to.deep.equal([
+        [expectedTreasuryCvxFees, expectedContributorsCvxFees],
+        [expectedTreasuryCrvFees, expectedContributorsCrvFees],
+      ]);
       expect(treasuryCvxBalanceAfter).to.not.equal(treasuryCvxBalanceBefore);
       expect(treasuryCvxBalanceAfter).to.equal(
         treasuryCvxBalanceBefore.add(expectedTreasuryCvxFees)
@@ -474,56 +503,24 @@ describe('PirexCvx-Reward', function () {
 
   describe('redeemSnapshotRewards', function () {
     before(async function () {
-      const cvxRewardDistribution = [
-        {
-          account: pirexCvx.address,
-          amount: toBN(2e18),
-        },
-      ];
-      const crvRewardDistribution = [
-        {
-          account: pirexCvx.address,
-          amount: toBN(2e18),
-        },
-      ];
-      const cvxTree = new BalanceTree(cvxRewardDistribution);
-      const crvTree = new BalanceTree(crvRewardDistribution);
+      const votiumDistribution = parseMultiBalanceMap({
+        [cvx.address]: { [pirexCvx.address]: toBN(2e18).toString() },
+        [crv.address]: { [pirexCvx.address]: toBN(2e18).toString() },
+      });
 
       await cvx.transfer(votiumMultiMerkleStash.address, toBN(2e18));
       await crv.transfer(votiumMultiMerkleStash.address, toBN(2e18));
       await votiumMultiMerkleStash.updateMerkleRoot(
         cvx.address,
-        cvxTree.getHexRoot()
+        votiumDistribution[cvx.address].merkleRoot
       );
       await votiumMultiMerkleStash.updateMerkleRoot(
         crv.address,
-        crvTree.getHexRoot()
+        votiumDistribution[crv.address].merkleRoot
+      );
+      await pirexCvx.claimVotiumRewards(
+        getVotiumClaimParams(votiumDistribution, pirexCvx.address)
       );
-
-      const tokens = [cvx.address, crv.address];
-      const indexes = [0, 0];
-      const amounts = [
-        cvxRewardDistribution[0].amount,
-        crvRewardDistribution[0].amount,
-      ];
-      const proofs = [
-        cvxTree.getProof(
-          indexes[0],
-          pirexCvx.address,
-          cvxRewardDistribution[0].amount
-        ),
-        crvTree.getProof(
-          indexes[1],
-          pirexCvx.address,
-          crvRewardDistribution[0].amount
-        ),
-      ];
-      const votiumRewards: any[] = [
-        [tokens[0], indexes[0], amounts[0], proofs[0]],
-        [tokens[1], indexes[1], amounts[1], proofs[1]],
-      ];
-
-      await pirexCvx.claimVotiumRewards(votiumRewards);
     });
 
     it('Should revert if rewardIndexes is an empty array', async function () {
@@ -581,6 +578,10 @@ describe('PirexCvx-Reward', function () {
       const receiver = admin.address;
       const cvxBalanceBefore = await cvx.balanceOf(admin.address);
       const crvBalanceBefore = await crv.balanceOf(admin.address);
+      const claimable = await getClaimableRewards(pirexCvx, admin.address, {
+        fromEpoch: epoch.toNumber(),
+        toEpoch: epoch.toNumber(),
+      });
       const events = await callAndReturnEvents(pirexCvx.redeemSnapshotRewards, [
         epoch,
         rewardIndexes,
@@ -622,6 +623,16 @@ describe('PirexCvx-Reward', function () {
       expect(crvBalanceAfter).to.equal(
         crvBalanceBefore.add(totalExpectedSnapshotCrvRewards)
       );
+      expect(claimable.redeemSnapshotRewards).to.deep.equal([
+        [epoch.toNumber(), rewardIndexes, receiver],
+      ]);
+      expect(
+        claimable.epochs[0].snapshotRewards.map(({ amount }) => amount)
+      ).to.deep.equal([
+        expectedSnapshotCrvRewards[0],
+        expectedSnapshotCvxRewards,
+        expectedSnapshotCrvRewards[1],
+      ]);
       validateEvent(
         redeemEvent,
         'RedeemSnapshotRewards(uint256,uint256[],address,uint256,uint256)',
@@ -733,6 +744,10 @@ describe('PirexCvx-Reward', function () {
 
       const rpxCvxBalanceBefore = await rpxCvx.balanceOf(admin.address, epoch);
       const rpxCvxSupplyBefore = await rpxCvx.totalSupply(epoch);
+      const claimable = await getClaimableRewards(pirexCvx, admin.address, {
+        fromEpoch: epoch.toNumber(),
+        toEpoch: epoch.toNumber(),
+      });
 
       await rpxCvx.setApprovalForAll(pirexCvx.address, true);
 
@@ -790,6 +805,12 @@ describe('PirexCvx-Reward', function () {
       expect(futuresRewards[3].sub(expectedClaimAmounts[3])).to.equal(
         updatedFuturesRewards[3]
       );
+      expect(claimable.redeemFuturesRewards).to.deep.equal([
+        [epoch.toNumber(), receiver],
+      ]);
+      expect(
+        claimable.epochs[0].futuresRewards.map(({ amount }) => amount)
+      ).to.deep.equal(expectedClaimAmounts);
 
       validateEvent(
         redeemEvent,
@@ -0,0 +1,340 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { BigNumber } from 'ethers';
+import {
+  ConvexToken,
+  CvxLockerV2,
+  MultiMerkleStash,
+  PirexCvx,
+} from '../typechain-types';
+import { increaseBlockTimestamp, toBN } from './helpers';
+import { EPOCH_DURATION } from '../lib/pirex';
+import { getVotiumClaimParams, parseMultiBalanceMap } from '../lib/merkle';
+import {
+  Futures,
+  PirexCvxClient,
+  PirexCvxErrorName,
+  PirexCvxValidationError,
+} from '../lib/sdk';
+
+// Tests that the SDK rejects arguments with the custom error the contract reverts with
+describe('PirexCvxClient', function () {
+  let admin: SignerWithAddress;
+  let pirexCvx: PirexCvx;
+  let cvx: ConvexToken;
+  let cvxLocker: CvxLockerV2;
+  let votiumMultiMerkleStash: MultiMerkleStash;
+  let zeroAddress: string;
+  let client: PirexCvxClient;
+  let chainSnapshotId: string;
+
+  // The SDK call and the contract call with the same arguments
+  type Calls = [() => Promise<unknown>, () => Promise<unknown>];
+
+  const expectSameError = async (
+    [sdkCall, contractCall]: Calls,
+    errorName: PirexCvxErrorName
+  ) => {
+    const error = await sdkCall().catch((err: Error) => err);
+
+    expect(error).to.be.instanceOf(PirexCvxValidationError);
+    expect((error as PirexCvxValidationError).errorName).to.equal(errorName);
+    await expect(contractCall()).to.be.revertedWith(`${errorName}()`);
+  };
+
+  const getTimestamp = async () =>
+    (await ethers.provider.getBlock('latest')).timestamp;
+
+  before(async function () {
+    ({ admin, pirexCvx, cvx, cvxLocker, votiumMultiMerkleStash, zeroAddress } =
+      this);
+
+    // Leave the chain as it was for the other tests
+    chainSnapshotId = await ethers.provider.send('evm_snapshot', []);
+    client = new PirexCvxClient(pirexCvx.address, admin);
+
+    if (await pirexCvx.paused()) await pirexCvx.setPauseState(false);
+
+    // Locks CVX for redemptions, and leaves admin with pxCVX for the snapshot
+    const assets = toBN(10e18);
+
+    await cvx.approve(pirexCvx.address, assets);
+    await pirexCvx.deposit(assets, admin.address, false, zeroAddress);
+    await pirexCvx.lock();
+  });
+
+  after(async function () {
+    await ethers.provider.send('evm_revert', [chainSnapshotId]);
+  });
+
+  describe('deposit', function () {
+    it('Should match the contract errors', async function () {
+      await expectSameError(
+        [
+          () => client.deposit(0, admin.address),
+          () => pirexCvx.deposit(0, admin.address, false, zeroAddress),
+        ],
+        'ZeroAmount'
+      );
+      await expectSameError(
+        [
+          () => client.deposit(1, zeroAddress),
+          () => pirexCvx.deposit(1, zeroAddress, false, zeroAddress),
+        ],
+        'ZeroAddress'
+      );
+    });
+  });
+
+  describe('initiateRedemptions', function () {
+    it('Should match the contract errors', async function () {
+      const f = Futures.Reward;
+      const initiateRedemptions = (
+        lockIndexes: number[],
+        assets: BigNumber[],
+        receiver = admin.address
+      ): Calls => [
+        () => client.initiateRedemptions(lockIndexes, f, assets, receiver),
+        () => pirexCvx.initiateRedemptions(lockIndexes, f, assets, receiver),
+      ];
+
+      await expectSameError(initiateRedemptions([], []), 'EmptyArray');
+      await expectSameError(
+        initiateRedemptions([0], [toBN(1), toBN(1)]),
+        'MismatchedArrayLengths'
+      );
+      await expectSameError(initiateRedemptions([0], [toBN(0)]), 'ZeroAmount');
+      await expectSameError(
+        initiateRedemptions([0], [toBN(1)], zeroAddress),
+        'ZeroAddress'
+      );
+    });
+
+    it('Should match the contract when a lock has too little left to redeem', async function () {
+      const { lockData } = await cvxLocker.lockedBalances(pirexCvx.address);
+      const lockIndex = lockData.length - 1;
+      const { amount, unlockTime } = lockData[lockIndex];
+      const allowance = amount.sub(await pirexCvx.redemptions(unlockTime));
+      const f = Futures.Reward;
+      const initiateRedemptions = (
+        lockIndexes: number[],
+        assets: BigNumber[]
+      ): Calls => [
+        () => client.initiateRedemptions(lockIndexes, f, assets, admin.address),
+        () =>
+          pirexCvx.initiateRedemptions(lockIndexes, f, assets, admin.address),
+      ];
+      // Each within the allowance after fees, but not both together
+      const split = allowance.mul(6).div(10);
+
+      await expectSameError(
+        initiateRedemptions([lockIndex], [allowance.mul(2)]),
+        'InsufficientRedemptionAllowance'
+      );
+      await expectSameError(
+        initiateRedemptions([lockIndex, lockIndex], [split, split]),
+        'InsufficientRedemptionAllowance'
+      );
+    });
+  });
+
+  describe('redeem', function () {
+    it('Should match the contract errors', async function () {
+      const unlockTime = (await getTimestamp()) + EPOCH_DURATION;
+      const redeem = (
+        unlockTimes: number[],
+        assets: number[],
+        receiver = admin.address
+      ): Calls => [
+        () => client.redeem(unlockTimes, assets, receiver),
+        () => pirexCvx.redeem(unlockTimes, assets, receiver),
+      ];
+
+      await expectSameError(redeem([], []), 'EmptyArray');
+      await expectSameError(
+        redeem([unlockTime], [1, 1]),
+        'MismatchedArrayLengths'
+      );
+      await expectSameError(
+        redeem([unlockTime], [1], zeroAddress),
+        'ZeroAddress'
+      );
+      await expectSameError(redeem([unlockTime], [1]), 'BeforeUnlock');
+    });
+
+    it('Should match the contract once upxCVX is deprecated', async function () {
+      await pirexCvx.setPauseState(true);
+      await pirexCvx.setUpxCvxDeprecated(true);
+      await pirexCvx.setPauseState(false);
+
+      await expectSameError(
+        [
+          () => client.redeem([1], [1], admin.address),
+          () => pirexCvx.redeem([1], [1], admin.address),
+        ],
+        'RedeemClosed'
+      );
+
+      await pirexCvx.setPauseState(true);
+      await pirexCvx.setUpxCvxDeprecated(false);
+      await pirexCvx.setPauseState(false);
+    });
+  });
+
+  describe('stake', function () {
+    it('Should match the contract errors', async function () {
+      const f = Futures.Reward;
+
+      await expectSameError(
+        [
+          () => client.stake(0, f, 1, admin.address),
+          () => pirexCvx.stake(0, f, 1, admin.address),
+        ],
+        'ZeroAmount'
+      );
+      await expectSameError(
+        [
+          () => client.stake(1, f, 0, admin.address),
+          () => pirexCvx.stake(1, f, 0, admin.address),
+        ],
+        'ZeroAmount'
+      );
+      await expectSameError(
+        [
+          () => client.stake(1, f, 1, zeroAddress),
+          () => pirexCvx.stake(1, f, 1, zeroAddress),
+        ],
+        'ZeroAddress'
+      );
+    });
+  });
+
+  describe('unstake', function () {
+    it('Should match the contract errors', async function () {
+      const id = (await getTimestamp()) + EPOCH_DURATION;
+
+      await expectSameError(
+        [
+          () => client.unstake(id, 1, admin.address),
+          () => pirexCvx.unstake(id, 1, admin.address),
+        ],
+        'BeforeStakingExpiry'
+      );
+    });
+
+    it('Should not reject spxCVX expiring by the next block', async function () {
+      // The next block's timestamp is at least the latest block's plus one
+      const id = (await getTimestamp()) + 1;
+      const error = await client
+        .unstake(id, 1, admin.address)
+        .catch((err: Error) => err);
+
+      // Past the expiry check, so reverted by the spxCVX burn instead
+      expect(error).to.be.instanceOf(Error);
+      expect(error).to.not.be.instanceOf(PirexCvxValidationError);
+    });
+  });
+
+  describe('exchangeFutures', function () {
+    it('Should match the contract errors', async function () {
+      const f = Futures.Reward;
+      const currentEpoch = await pirexCvx.getCurrentEpoch();
+      const nextEpoch = currentEpoch.add(EPOCH_DURATION);
+
+      await expectSameError(
+        [
+          () => client.exchangeFutures(currentEpoch, 1, admin.address, f),
+          () => pirexCvx.exchangeFutures(currentEpoch, 1, admin.address, f),
+        ],
+        'PastExchangePeriod'
+      );
+      await expectSameError(
+        [
+          () => client.exchangeFutures(nextEpoch, 0, admin.address, f),
+          () => pirexCvx.exchangeFutures(nextEpoch, 0, admin.address, f),
+        ],
+        'ZeroAmount'
+      );
+      await expectSameError(
+        [
+          () => client.exchangeFutures(nextEpoch, 1, zeroAddress, f),
+          () => pirexCvx.exchangeFutures(nextEpoch, 1, zeroAddress, f),
+        ],
+        'ZeroAddress'
+      );
+    });
+  });
+
+  describe('redeemFuturesRewards', function () {
+    it('Should match the contract errors', async function () {
+      const nextEpoch = (await pirexCvx.getCurrentEpoch()).add(EPOCH_DURATION);
+
+      await expectSameError(
+        [
+          () => client.redeemFuturesRewards(0, admin.address),
+          () => pirexCvx.redeemFuturesRewards(0, admin.address),
+        ],
+        'InvalidEpoch'
+      );
+      await expectSameError(
+        [
+          () => client.redeemFuturesRewards(nextEpoch, admin.address),
+          () => pirexCvx.redeemFuturesRewards(nextEpoch, admin.address),
+        ],
+        'InvalidEpoch'
+      );
+    });
+  });
+
+  describe('redeemSnapshotRewards', function () {
+    it('Should match the contract errors', async function () {
+      const amount = toBN(1e18);
+      const votiumDistribution = parseMultiBalanceMap({
+        [cvx.address]: { [pirexCvx.address]: amount.toString() },
+      });
+
+      // Claiming in a new epoch snapshots the pxCVX deposited by admin
+      await increaseBlockTimestamp(EPOCH_DURATION);
+      await cvx.transfer(votiumMultiMerkleStash.address, amount);
+      await votiumMultiMerkleStash.updateMerkleRoot(
+        cvx.address,
+        votiumDistribution[cvx.address].merkleRoot
+      );
+      await pirexCvx.claimVotiumRewards(
+        getVotiumClaimParams(votiumDistribution, pirexCvx.address)
+      );
+
+      const epoch = await pirexCvx.getCurrentEpoch();
+
+      await expectSameError(
+        [
+          () => client.redeemSnapshotRewards(0, [0], admin.address),
+          () => pirexCvx.redeemSnapshotRewards(0, [0], admin.address),
+        ],
+        'InvalidEpoch'
+      );
+      await expectSameError(
+        [
+          () => client.redeemSnapshotRewards(epoch, [0], zeroAddress),
+          () => pirexCvx.redeemSnapshotRewards(epoch, [0], zeroAddress),
+        ],
+        'ZeroAddress'
+      );
+      await expectSameError(
+        [
+          () => client.redeemSnapshotRewards(epoch, [], admin.address),
+          () => pirexCvx.redeemSnapshotRewards(epoch, [], admin.address),
+        ],
+        'EmptyArray'
+      );
+      await expectSameError(
+        [
+          () => client.redeemSnapshotRewards(epoch, [0, 0], admin.address),
+          () => pirexCvx.redeemSnapshotRewards(epoch, [0, 0], admin.address),
+        ],
+        'AlreadyRedeemed'
+      );
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import {
+  MerkleTree,
+  distributorEncodings,
+  parseBalanceMap,
+  reconstructDistribution,
+} from '../lib/merkle';
+import { toBN } from './helpers';
+
+// Tests that the tree reconstruction pinpoints how a published distribution went wrong
+describe('ReconstructDistribution', function () {
+  const accounts = [7, 3, 5, 1, 6].map((n) =>
+    utils.getAddress(utils.hexZeroPad(utils.hexlify(n * 0x1111), 20))
+  );
+  const balances = accounts.reduce<{ [account: string]: string }>(
+    (memo, account, idx) => ({
+      ...memo,
+      [account]: toBN(1e18)
+        .mul(idx + 1)
+        .toString(),
+    }),
+    {}
+  );
+  const sortedAccounts = [...accounts].sort();
+
+  // Votium leaves computed independently of BalanceTree, with the given index per account
+  const getVotiumRoot = (indexOf: (account: string) => number) =>
+    new MerkleTree(
+      sortedAccounts.map((account) =>
+        Buffer.from(
+          utils
+            .solidityKeccak256(
+              ['uint256', 'address', 'uint256'],
+              [indexOf(account), account, balances[account]]
+            )
+            .slice(2),
+          'hex'
+        )
+      )
+    ).getHexRoot();
+
+  describe('reconstructDistribution', function () {
+    it('Should match the root parseBalanceMap publishes', async function () {
+      const { merkleRoot } = parseBalanceMap(balances);
+      const report = reconstructDistribution(merkleRoot, balances);
+
+      expect(merkleRoot).to.equal(
+        getVotiumRoot((account) => sortedAccounts.indexOf(account))
+      );
+      expect(report.matches).to.equal(true);
+      expect(report.rebuiltRoot).to.equal(merkleRoot);
+      expect(report.suspects).to.deep.equal([]);
+    });
+
+    it('Should detect indexes shifted by one', async function () {
+      const publishedRoot = getVotiumRoot(
+        (account) => sortedAccounts.indexOf(account) + 1
+      );
+      const report = reconstructDistribution(publishedRoot, balances);
+
+      expect(report.matches).to.equal(false);
+      expect(report.matchedVariant).to.deep.equal({
+        ordering: 'one-based-index',
+        encoding: 'votium',
+        description: 'indexes starting at 1 instead of 0, votium encoding',
+      });
+      expect(report.suspects.map(({ account }) => account)).to.deep.equal(
+        sortedAccounts
+      );
+      expect(
+        report.suspects.every(({ reason }) => reason === 'index-mismatch')
+      ).to.equal(true);
+    });
+
+    it('Should detect a root built with another encoding', async function () {
+      const { leafEncoder } = distributorEncodings.openZeppelin;
+      const publishedRoot = new MerkleTree(
+        sortedAccounts.map((account, index) =>
+          leafEncoder(index, account, BigNumber.from(balances[account]))
+        )
+      ).getHexRoot();
+      const report = reconstructDistribution(publishedRoot, balances);
+
+      expect(report.matches).to.equal(false);
+      expect(report.matchedVariant).to.deep.equal({
+        ordering: 'checksummed-sort',
+        encoding: 'openZeppelin',
+        description:
+          'indexes assigned by sorted checksummed address, openZeppelin encoding',
+      });
+      expect(report.suspects).to.deep.equal([]);
+    });
+
+    it('Should flag a corrupted published proof', async function () {
+      const published = parseBalanceMap(balances);
+      const account = sortedAccounts[2];
+      const { proof } = published.claims[account];
+
+      published.claims[account].proof = [
+        utils.keccak256(proof[0]),
+        ...proof.slice(1),
+      ];
+
+      const report = reconstructDistribution(published.merkleRoot, balances, {
+        published,
+      });
+
+      expect(report.matches).to.equal(true);
+      expect(report.suspects).to.deep.equal([
+        {
+          account,
+          reason: 'invalid-proof',
+          message:
+            'Published proof for index 2 does not verify against the root',
+        },
+      ]);
+    });
+
+    it('Should flag the leaves that differ from the published claims', async function () {
+      const account = sortedAccounts[1];
+      const published = parseBalanceMap({
+        ...balances,
+        [account]: BigNumber.from(balances[account]).add(1).toString(),
+      });
+      const report = reconstructDistribution(published.merkleRoot, balances, {
+        published,
+      });
+
+      expect(report.matches).to.equal(false);
+      expect(report.matchedVariant).to.equal(undefined);
+      expect(report.suspects.map(({ reason }) => reason)).to.deep.equal([
+        'amount-mismatch',
+      ]);
+      expect(report.suspects[0].account).to.equal(account);
+    });
+  });
+});
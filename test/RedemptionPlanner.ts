@@ -0,0 +1,134 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { BigNumber } from 'ethers';
+import { ConvexToken, CvxLockerV2, PirexCvx, PxCvx } from '../typechain-types';
+import { toBN } from './helpers';
+import {
+  FEE_DENOMINATOR,
+  FEE_MAX,
+  getRedemptionFeePercent,
+  getRedemptionPlan,
+  getRedemptionState,
+  RedemptionPlan,
+} from '../lib/pirex';
+
+// Tests that redemption plans are accepted by initiateRedemptions as planned
+describe('RedemptionPlanner', function () {
+  let admin: SignerWithAddress;
+  let pxCvx: PxCvx;
+  let pirexCvx: PirexCvx;
+  let cvx: ConvexToken;
+  let cvxLocker: CvxLockerV2;
+  let zeroAddress: string;
+  let futuresEnum: any;
+  let feesEnum: any;
+  let chainSnapshotId: string;
+
+  // Initiates the planned redemptions, checking the redemptions recorded per unlock time
+  const initiatePlan = async (plan: RedemptionPlan) => {
+    await pirexCvx.initiateRedemptions(
+      plan.lockIndexes,
+      futuresEnum.reward,
+      plan.assets,
+      admin.address
+    );
+
+    const { lockData } = await cvxLocker.lockedBalances(pirexCvx.address);
+
+    for (const { unlockTime } of plan.quotes) {
+      const [{ amount }] = lockData.filter((data) =>
+        data.unlockTime.eq(unlockTime)
+      );
+      const redemptions = await pirexCvx.redemptions(unlockTime);
+
+      // Mined after the quoted timestamp, so charged at least the quoted fee
+      expect(redemptions.lte(plan.redemptions[unlockTime])).to.equal(true);
+      expect(redemptions.lte(amount)).to.equal(true);
+    }
+  };
+
+  before(async function () {
+    ({
+      admin,
+      pxCvx,
+      pirexCvx,
+      cvx,
+      cvxLocker,
+      zeroAddress,
+      futuresEnum,
+      feesEnum,
+    } = this);
+
+    // Leave the chain as it was for the other tests
+    chainSnapshotId = await ethers.provider.send('evm_snapshot', []);
+
+    if (await pirexCvx.paused()) await pirexCvx.setPauseState(false);
+
+    // Max first, since the min cannot exceed it
+    await pirexCvx.setFee(feesEnum.redemptionMax, FEE_MAX);
+    await pirexCvx.setFee(feesEnum.redemptionMin, FEE_MAX / 10);
+
+    const assets = toBN(10e18);
+
+    await cvx.approve(pirexCvx.address, assets);
+    await pirexCvx.deposit(assets, admin.address, false, zeroAddress);
+    await pirexCvx.lock();
+  });
+
+  after(async function () {
+    await ethers.provider.send('evm_revert', [chainSnapshotId]);
+  });
+
+  describe('getRedemptionPlan', function () {
+    it('Should initiate the plan of each strategy', async function () {
+      const assets = toBN(1e18);
+
+      for (const strategy of ['fees', 'wait'] as const) {
+        const plan = await getRedemptionPlan(pirexCvx, assets, { strategy });
+
+        expect(plan.totalAssets).to.deep.equal(assets);
+
+        await initiatePlan(plan);
+      }
+    });
+
+    it('Should fill a lock without exceeding its allowance', async function () {
+      const { lockedBalances, timestamp, feeMin, feeMax } =
+        await getRedemptionState(pirexCvx);
+      const lockIndex = lockedBalances.length - 1;
+      const unlockTime = BigNumber.from(lockedBalances[lockIndex].unlockTime);
+      const allowance = BigNumber.from(lockedBalances[lockIndex].amount).sub(
+        await pirexCvx.redemptions(unlockTime)
+      );
+      const feePercent = getRedemptionFeePercent(
+        unlockTime.toNumber() - timestamp,
+        feeMin,
+        feeMax
+      );
+      // Largest amount whose post-fee amount fits in the allowance
+      const assets = allowance
+        .mul(FEE_DENOMINATOR)
+        .div(BigNumber.from(FEE_DENOMINATOR).sub(feePercent));
+      const balance = await pxCvx.balanceOf(admin.address);
+
+      if (balance.lt(assets)) {
+        await cvx.approve(pirexCvx.address, assets.sub(balance));
+        await pirexCvx.deposit(
+          assets.sub(balance),
+          admin.address,
+          false,
+          zeroAddress
+        );
+      }
+
+      // The latest lock has the lowest fee, so it is filled first
+      const plan = await getRedemptionPlan(pirexCvx, assets);
+
+      expect(plan.lockIndexes).to.deep.equal([lockIndex]);
+      expect(plan.assets).to.deep.equal([assets]);
+
+      await initiatePlan(plan);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { PirexCvx, PxCvx } from '../typechain-types';
+import { auditRoles, RoleAuditTarget } from '../lib/audit';
+
+// Tests the role audit against the locally deployed contracts
+describe('RoleAudit', function () {
+  let admin: SignerWithAddress;
+  let notAdmin: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let pxCvx: PxCvx;
+  let pirexCvx: PirexCvx;
+  let zeroAddress: string;
+  let targets: RoleAuditTarget[];
+  let fromBlock: number;
+  let chainSnapshotId: string;
+
+  const getRoles = (contract: string, role: string) =>
+    auditRoles(ethers.provider, 'hardhat', targets, { fromBlock }).then(
+      ({ holdings }) =>
+        holdings
+          .filter((holding) => holding.contract === contract)
+          .filter((holding) => holding.role === role)
+          .map(({ holder }) => holder)
+    );
+
+  before(async function () {
+    ({ admin, notAdmin, treasury, pxCvx, pirexCvx, zeroAddress } = this);
+
+    // Leave the chain as it was for the other tests
+    chainSnapshotId = await ethers.provider.send('evm_snapshot', []);
+    // Deployed before the ERC1155 tokens, so the replay includes their initial grants
+    fromBlock = (await pxCvx.deployTransaction.wait()).blockNumber;
+    targets = [
+      { name: 'PxCvx', address: pxCvx.address, ownable: true },
+      {
+        name: 'SpxCvx',
+        address: await pirexCvx.spxCvx(),
+        accessControl: true,
+      },
+      {
+        name: 'PirexCvx',
+        address: pirexCvx.address,
+        ownable: true,
+        pirexCvx: true,
+      },
+    ];
+  });
+
+  after(async function () {
+    await ethers.provider.send('evm_revert', [chainSnapshotId]);
+  });
+
+  describe('auditRoles', function () {
+    it('Should list every holder and treat an uninitialized emergency executor as informational', async function () {
+      const report = await auditRoles(ethers.provider, 'hardhat', targets, {
+        fromBlock,
+        labels: { deployer: admin.address },
+        rules: {
+          owner: { allowed: [admin.address] },
+          DEFAULT_ADMIN_ROLE: { allowed: [admin.address] },
+          MINTER_ROLE: { allowed: [pirexCvx.address] },
+        },
+      });
+      const executor = report.holdings.find(
+        ({ role }) => role === 'emergencyExecutor'
+      );
+
+      expect(
+        report.holdings.map(({ contract, role, holder }) => [
+          contract,
+          role,
+          holder,
+        ])
+      ).to.deep.equal([
+        ['PxCvx', 'owner', admin.address],
+        ['SpxCvx', 'DEFAULT_ADMIN_ROLE', admin.address],
+        ['SpxCvx', 'MINTER_ROLE', pirexCvx.address],
+        ['PirexCvx', 'owner', admin.address],
+        ['PirexCvx', 'emergencyExecutor', zeroAddress],
+      ]);
+      expect(report.unexpected).to.equal(0);
+      expect(report.holdings[0].knownAs).to.deep.equal(['deployer']);
+      expect(report.holdings[2].isContract).to.equal(true);
+      expect(executor?.expected).to.equal(true);
+      expect(executor?.note).to.equal('Not initialized');
+    });
+
+    it('Should flag holders that break the rules', async function () {
+      const report = await auditRoles(ethers.provider, 'hardhat', targets, {
+        fromBlock,
+        rules: { MINTER_ROLE: { allowed: [notAdmin.address] } },
+        forbidden: { [admin.address]: 'Still held by the deployer' },
+      });
+      const flagged = report.holdings
+        .filter(({ expected }) => !expected)
+        .map(({ contract, role, reason }) => [contract, role, reason]);
+
+      expect(report.unexpected).to.equal(4);
+      expect(flagged).to.deep.equal([
+        ['PxCvx', 'owner', 'Still held by the deployer'],
+        ['SpxCvx', 'DEFAULT_ADMIN_ROLE', 'Still held by the deployer'],
+        ['SpxCvx', 'MINTER_ROLE', 'Not an expected MINTER_ROLE holder'],
+        ['PirexCvx', 'owner', 'Still held by the deployer'],
+      ]);
+    });
+
+    it('Should replay role and developer changes', async function () {
+      const spxCvx = await this.getSpxCvx(await pirexCvx.spxCvx());
+
+      await spxCvx.grantMinterRole(notAdmin.address);
+      await spxCvx.grantMinterRole(treasury.address);
+      await spxCvx.revokeMinterRole(treasury.address);
+      await pirexCvx.addDeveloper(notAdmin.address);
+      await pirexCvx.addDeveloper(treasury.address);
+      await pirexCvx.removeDeveloper(treasury.address);
+
+      expect(await getRoles('SpxCvx', 'MINTER_ROLE')).to.deep.equal([
+        pirexCvx.address,
+        notAdmin.address,
+      ]);
+      expect(await getRoles('PirexCvx', 'developer')).to.deep.equal([
+        notAdmin.address,
+      ]);
+    });
+
+    it('Should report an initialized emergency executor', async function () {
+      // Can only be initialized while paused
+      if (!(await pirexCvx.paused())) await pirexCvx.setPauseState(true);
+
+      await pirexCvx.initializeEmergencyExecutor(treasury.address);
+
+      const report = await auditRoles(ethers.provider, 'hardhat', targets, {
+        fromBlock,
+      });
+      const executor = report.holdings.find(
+        ({ role }) => role === 'emergencyExecutor'
+      );
+
+      expect(executor?.holder).to.equal(treasury.address);
+      expect(executor?.expected).to.equal(true);
+      expect(executor?.note).to.equal(undefined);
+    });
+
+    it('Should flag the Pirex multisig as emergency executor', async function () {
+      // Treasury stands in for the Pirex multisig, as in the audit-roles rules
+      const report = await auditRoles(ethers.provider, 'hardhat', targets, {
+        fromBlock,
+        rules: {
+          emergencyExecutor: {
+            forbidden: { [treasury.address]: 'Must not be the Pirex multisig' },
+          },
+        },
+      });
+      const executor = report.holdings.find(
+        ({ role }) => role === 'emergencyExecutor'
+      );
+
+      expect(report.unexpected).to.equal(1);
+      expect(executor?.holder).to.equal(treasury.address);
+      expect(executor?.expected).to.equal(false);
+      expect(executor?.reason).to.equal('Must not be the Pirex multisig');
+    });
+  });
+});
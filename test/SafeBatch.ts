@@ -0,0 +1,131 @@
+import { expect } from 'chai';
+import { Contract, utils } from 'ethers';
+import {
+  calculateSafeBatchChecksum,
+  ContractCall,
+  createSafeTransactionBatch,
+} from '../lib/operations';
+
+// Tests that batches are written as the Transaction Builder imports them
+describe('SafeBatch', function () {
+  const [pirexCvxAddress, safeAddress, receiver] = [
+    'pirexCvx',
+    'safe',
+    'receiver',
+  ].map((name) => utils.getAddress(utils.hexDataSlice(utils.id(name), 12)));
+  const pirexCvx = new Contract(pirexCvxAddress, [
+    'function setFee(uint8 f, uint32 fee)',
+    'function redeem(uint256[] unlockTimes, uint256[] assets, address receiver)',
+  ]);
+  const calls: ContractCall[] = [
+    {
+      label: 'PirexCvx',
+      contract: pirexCvx,
+      method: 'setFee',
+      args: [1, 50000],
+    },
+    {
+      label: 'PirexCvx',
+      contract: pirexCvx,
+      method: 'redeem',
+      args: [['1667433600', '1668038400'], ['1', '2'], receiver],
+    },
+  ];
+  const options = {
+    chainId: 1,
+    safeAddress,
+    name: 'Set fees',
+    createdAt: 1657152000000,
+  };
+  // Computed with the Transaction Builder's own serialization
+  const checksum =
+    '0xdc1a4945c4e5882315f81a6385e5d093c39fd2069251b9b64d5467391fd957bc';
+
+  describe('createSafeTransactionBatch', function () {
+    it('Should serialize the calls in the Transaction Builder format', async function () {
+      const batch = createSafeTransactionBatch(calls, options);
+      const expectedBatch = {
+        version: '1.0',
+        chainId: '1',
+        createdAt: 1657152000000,
+        meta: {
+          name: 'Set fees',
+          description: '',
+          txBuilderVersion: '1.10.0',
+          createdFromSafeAddress: safeAddress,
+          createdFromOwnerAddress: '',
+          checksum,
+        },
+        transactions: [
+          {
+            to: pirexCvxAddress,
+            value: '0',
+            data: null,
+            contractMethod: {
+              inputs: [
+                { internalType: 'uint8', name: 'f', type: 'uint8' },
+                { internalType: 'uint32', name: 'fee', type: 'uint32' },
+              ],
+              name: 'setFee',
+              payable: false,
+            },
+            contractInputsValues: { f: '1', fee: '50000' },
+          },
+          {
+            to: pirexCvxAddress,
+            value: '0',
+            data: null,
+            contractMethod: {
+              inputs: [
+                {
+                  internalType: 'uint256[]',
+                  name: 'unlockTimes',
+                  type: 'uint256[]',
+                },
+                {
+                  internalType: 'uint256[]',
+                  name: 'assets',
+                  type: 'uint256[]',
+                },
+                { internalType: 'address', name: 'receiver', type: 'address' },
+              ],
+              name: 'redeem',
+              payable: false,
+            },
+            contractInputsValues: {
+              unlockTimes: '["1667433600","1668038400"]',
+              assets: '["1","2"]',
+              receiver,
+            },
+          },
+        ],
+      };
+
+      // Compared as written, so the key order is checked too
+      expect(JSON.stringify(batch, null, 2)).to.equal(
+        JSON.stringify(expectedBatch, null, 2)
+      );
+    });
+  });
+
+  describe('calculateSafeBatchChecksum', function () {
+    it('Should match the checksum of the batch without its name', async function () {
+      const batch = createSafeTransactionBatch(calls, options);
+      const renamed = createSafeTransactionBatch(calls, {
+        ...options,
+        name: 'Renamed',
+      });
+
+      expect(calculateSafeBatchChecksum(batch)).to.equal(checksum);
+      expect(renamed.meta.checksum).to.equal(checksum);
+    });
+
+    it('Should change with the transactions', async function () {
+      const batch = createSafeTransactionBatch(calls, options);
+
+      batch.transactions[0].contractInputsValues.fee = '50001';
+
+      expect(calculateSafeBatchChecksum(batch)).to.not.equal(checksum);
+    });
+  });
+});
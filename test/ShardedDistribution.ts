@@ -0,0 +1,99 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { utils } from 'ethers';
+import {
+  parseBalanceMap,
+  readShardManifest,
+  readShardedClaim,
+  readShardedDistribution,
+  writeShardedDistribution,
+} from '../lib/merkle';
+import { toBN } from './helpers';
+
+// Tests that sharded distributions read back the same claims as the unsharded one
+describe('ShardedDistribution', function () {
+  const distribution = parseBalanceMap(
+    [...Array(11).keys()].map((n) => ({
+      address: utils.getAddress(utils.hexDataSlice(utils.id(`shard${n}`), 12)),
+      earnings: toBN(1e18)
+        .mul(n + 1)
+        .toString(),
+      reasons: n % 2 === 0 ? 'snapshot' : 'futures,union',
+    }))
+  );
+  const accounts = Object.keys(distribution.claims);
+  let dir: string;
+
+  before(async function () {
+    dir = await fs.mkdtemp(join(tmpdir(), 'pirex-shards-'));
+  });
+
+  after(async function () {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('writeShardedDistribution', function () {
+    it('Should read back the unsharded distribution', async function () {
+      const shardDir = join(dir, 'round-trip');
+      const manifest = await writeShardedDistribution(distribution, shardDir);
+
+      expect(await readShardManifest(shardDir)).to.deep.equal(manifest);
+      expect(manifest.claimCount).to.equal(accounts.length);
+      expect(
+        Object.values(manifest.shards).reduce(
+          (total, { claimCount }) => total + claimCount,
+          0
+        )
+      ).to.equal(accounts.length);
+      expect(manifest.reasonTotals).to.deep.equal(distribution.reasonTotals);
+      expect(await readShardedDistribution(shardDir)).to.deep.equal(
+        distribution
+      );
+    });
+
+    it('Should read back each claim from its shard', async function () {
+      const shardDir = join(dir, 'claims');
+      // Single-character prefixes, so shards hold several claims
+      const manifest = await writeShardedDistribution(
+        distribution,
+        shardDir,
+        1
+      );
+
+      for (const account of accounts) {
+        const claim = distribution.claims[account];
+
+        expect(await readShardedClaim(shardDir, account)).to.deep.equal(claim);
+        expect(
+          await readShardedClaim(shardDir, account.toLowerCase(), manifest)
+        ).to.deep.equal(claim);
+      }
+
+      expect(
+        await readShardedClaim(
+          shardDir,
+          utils.getAddress(utils.hexDataSlice(utils.id('unclaimed'), 12))
+        )
+      ).to.equal(null);
+    });
+
+    it('Should reject shards that do not match the manifest', async function () {
+      const shardDir = join(dir, 'tampered');
+      const { shards } = await writeShardedDistribution(distribution, shardDir);
+      const [prefix] = Object.keys(shards);
+      const file = join(shardDir, shards[prefix].file);
+
+      await fs.writeFile(file, JSON.stringify({}));
+
+      const error = await readShardedDistribution(shardDir).catch(
+        (err: Error) => err
+      );
+
+      expect((error as Error).message).to.equal(
+        `Claim count mismatch in shard: ${prefix}`
+      );
+    });
+  });
+});
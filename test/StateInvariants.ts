@@ -0,0 +1,143 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import {
+  ConvexToken,
+  CvxLockerV2,
+  DelegateRegistry,
+  MultiMerkleStash,
+  PirexCvx,
+  PirexFees,
+  PxCvx,
+  UnionPirexStrategy,
+  UnionPirexVault,
+} from '../typechain-types';
+import {
+  evaluateInvariants,
+  formatInvariantReportAsJUnit,
+} from '../lib/invariants';
+import { NetworkConfig } from '../lib/types';
+import { FEES, getStateInvariants } from '../scripts/mainnet/operations';
+
+// Tests the checkState invariants against the locally deployed contracts
+describe('StateInvariants', function () {
+  let admin: SignerWithAddress;
+  let notAdmin: SignerWithAddress;
+  let pxCvx: PxCvx;
+  let pirexCvx: PirexCvx;
+  let pirexFees: PirexFees;
+  let unionPirex: UnionPirexVault;
+  let unionPirexStrategy: UnionPirexStrategy;
+  let cvx: ConvexToken;
+  let cvxLocker: CvxLockerV2;
+  let cvxDelegateRegistry: DelegateRegistry;
+  let votiumMultiMerkleStash: MultiMerkleStash;
+  let contractEnum: any;
+  let feesEnum: any;
+  let config: NetworkConfig;
+  let chainSnapshotId: string;
+
+  before(async function () {
+    ({
+      admin,
+      notAdmin,
+      pxCvx,
+      pirexCvx,
+      pirexFees,
+      unionPirex,
+      unionPirexStrategy,
+      cvx,
+      cvxLocker,
+      cvxDelegateRegistry,
+      votiumMultiMerkleStash,
+      contractEnum,
+      feesEnum,
+    } = this);
+
+    // Leave the chain as it was for the other tests
+    chainSnapshotId = await ethers.provider.send('evm_snapshot', []);
+
+    // Admin deployed the contracts, so stands in for the Pirex multisig they are handed to
+    config = {
+      network: 'hardhat',
+      chainId: 31337,
+      external: {
+        cvx: cvx.address,
+        cvxLockerV2: cvxLocker.address,
+        convexDelegateRegistry: cvxDelegateRegistry.address,
+        votiumMultiMerkleStash: votiumMultiMerkleStash.address,
+      },
+      roles: {
+        redactedMultisig: admin.address,
+        pirexMultisig: admin.address,
+        unionDistributor: admin.address,
+      },
+      contracts: {
+        pxCvx: pxCvx.address,
+        spxCvx: await pirexCvx.spxCvx(),
+        upxCvx: await pirexCvx.upxCvx(),
+        vpxCvx: await pirexCvx.vpxCvx(),
+        rpxCvx: await pirexCvx.rpxCvx(),
+        pirexFees: pirexFees.address,
+        pirexCvx: pirexCvx.address,
+        unionPirexVault: unionPirex.address,
+        unionPirexStrategy: unionPirexStrategy.address,
+      },
+    };
+
+    // The rest of the configuration is done by setup.ts
+    if (!(await pirexCvx.paused())) await pirexCvx.setPauseState(true);
+
+    // Cleared first, since RedemptionMax cannot be set below it
+    await pirexCvx.setFee(feesEnum.redemptionMin, 0);
+
+    for (const { fee, value } of FEES) {
+      await pirexCvx.setFee(fee, value);
+    }
+
+    await pirexCvx.setContract(contractEnum.unionPirex, unionPirex.address);
+    await unionPirex.setPlatform(admin.address);
+    await pirexCvx.setPauseState(false);
+  });
+
+  after(async function () {
+    await ethers.provider.send('evm_revert', [chainSnapshotId]);
+  });
+
+  describe('getStateInvariants', function () {
+    it('Should pass every invariant once configured', async function () {
+      const report = await evaluateInvariants(
+        'hardhat',
+        await getStateInvariants(config, notAdmin.address)
+      );
+
+      expect(report.results.filter(({ passed }) => !passed)).to.deep.equal([]);
+      expect(report.passed).to.equal(report.results.length);
+    });
+
+    it('Should report a failing invariant as a JUnit failure', async function () {
+      await pirexCvx.setPauseState(true);
+
+      const report = await evaluateInvariants(
+        'hardhat',
+        await getStateInvariants(config, notAdmin.address)
+      );
+      const junit = formatInvariantReportAsJUnit(report);
+
+      expect(report.failed).to.equal(1);
+      expect(junit).to.include(
+        `<testsuites name="hardhat" tests="${report.results.length}" failures="1" errors="0">`
+      );
+      expect(junit).to.include(
+        '<testsuite name="PirexCvx" tests="2" failures="1" errors="0">'
+      );
+      expect(junit).to.include(
+        [
+          '    <testcase classname="hardhat.PirexCvx" name="Unpaused">',
+          '      <failure message="Expected false, got true" />',
+          '    </testcase>',
+        ].join('\n')
+      );
+    });
+  });
+});
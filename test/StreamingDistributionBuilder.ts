@@ -0,0 +1,150 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { utils } from 'ethers';
+import {
+  StreamingDistributionBuilder,
+  parseBalanceMap,
+  readShardedDistribution,
+} from '../lib/merkle';
+import { toBN } from './helpers';
+
+// Tests that the streaming builder produces the same distribution as parseBalanceMap
+describe('StreamingDistributionBuilder', function () {
+  // Odd number of accounts to exercise promoted nodes, some not checksummed
+  const balances = [...Array(13).keys()].reduce<{ [account: string]: string }>(
+    (memo, n) => {
+      const account = utils.getAddress(
+        utils.hexDataSlice(utils.id(`account${n}`), 12)
+      );
+
+      memo[n % 3 === 0 ? account.toLowerCase() : account] = toBN(1e18)
+        .mul(n + 1)
+        .add(n)
+        .toString();
+      return memo;
+    },
+    {}
+  );
+  const accounts = Object.keys(balances);
+  let dir: string;
+
+  const buildShards = async (
+    builder: StreamingDistributionBuilder,
+    prefixLength?: number
+  ) => {
+    const shardDir = await fs.mkdtemp(join(dir, 'shards-'));
+
+    await builder.writeShards(shardDir, prefixLength);
+
+    return readShardedDistribution(shardDir);
+  };
+
+  before(async function () {
+    dir = await fs.mkdtemp(join(tmpdir(), 'pirex-streaming-'));
+  });
+
+  after(async function () {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('build', function () {
+    it('Should match the root, claims and proofs of parseBalanceMap', async function () {
+      const builder = new StreamingDistributionBuilder();
+
+      accounts.forEach((account) => builder.add(account, balances[account]));
+
+      const expected = parseBalanceMap(balances);
+
+      expect(builder.claimCount).to.equal(accounts.length);
+      expect(builder.build()).to.deep.equal({
+        merkleRoot: expected.merkleRoot,
+        tokenTotal: expected.tokenTotal,
+      });
+      expect(await buildShards(builder)).to.deep.equal(expected);
+      expect(await buildShards(builder, 1)).to.deep.equal(expected);
+    });
+
+    it('Should match parseBalanceMap when reading CSV and NDJSON files', async function () {
+      const csv = join(dir, 'balances.csv');
+      const ndjson = join(dir, 'balances.ndjson');
+      const csvBuilder = new StreamingDistributionBuilder();
+      const ndjsonBuilder = new StreamingDistributionBuilder();
+
+      await fs.writeFile(
+        csv,
+        [
+          'address,earnings',
+          ...accounts.map((account) => `${account},${balances[account]}`),
+        ].join('\n')
+      );
+      await fs.writeFile(
+        ndjson,
+        accounts
+          .map((address) =>
+            JSON.stringify({ address, earnings: balances[address] })
+          )
+          .join('\n')
+      );
+      await csvBuilder.addFile(csv);
+      await ndjsonBuilder.addFile(ndjson);
+
+      const expected = parseBalanceMap(balances);
+
+      expect(await buildShards(csvBuilder)).to.deep.equal(expected);
+      expect(await buildShards(ndjsonBuilder)).to.deep.equal(expected);
+    });
+
+    it('Should reject duplicate rows like parseBalanceMap', async function () {
+      const [account] = accounts;
+      const checksummed = utils.getAddress(account);
+      const rows = [
+        ...accounts.map((address) => ({
+          address,
+          earnings: balances[address],
+          reasons: '',
+        })),
+        // Same account with another casing
+        {
+          address:
+            account === checksummed ? account.toLowerCase() : checksummed,
+          earnings: '1',
+          reasons: '',
+        },
+      ];
+      const builder = new StreamingDistributionBuilder();
+
+      rows.forEach(({ address, earnings }) => builder.add(address, earnings));
+
+      expect(() => parseBalanceMap(rows)).to.throw(
+        `Duplicate address: ${checksummed}`
+      );
+      expect(() => builder.build()).to.throw(
+        `Duplicate address: ${checksummed}`
+      );
+    });
+
+    it('Should reject zero amounts like parseBalanceMap', async function () {
+      const [account] = accounts;
+      const csv = join(dir, 'zero.csv');
+      const builder = new StreamingDistributionBuilder();
+
+      await fs.writeFile(csv, `address,earnings\n${account},0\n`);
+
+      const fileError = await new StreamingDistributionBuilder()
+        .addFile(csv)
+        .catch((err: Error) => err);
+
+      expect(() => parseBalanceMap({ ...balances, [account]: '0' })).to.throw(
+        `Invalid amount for account: ${account}`
+      );
+      expect(() => builder.add(account, 0)).to.throw(
+        `Invalid amount for account: ${account}`
+      );
+      expect((fileError as Error).message).to.equal(
+        `Line 2: Invalid amount for account: ${account}`
+      );
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { constants, utils } from 'ethers';
+import {
+  BalanceMapValidationError,
+  getJsonEntryLines,
+  parseBalanceMap,
+  validateBalanceFile,
+  validateBalanceMap,
+} from '../lib/merkle';
+
+// Tests that every invalid balance map entry is reported with its position
+describe('ValidateBalanceMap', function () {
+  const [first, second] = ['first', 'second'].map((name) =>
+    utils.getAddress(utils.hexDataSlice(utils.id(name), 12))
+  );
+  // Flips the case of the first letter, which breaks the checksum
+  const badChecksum = first.replace(/[a-f]/i, (char) =>
+    char === char.toLowerCase() ? char.toUpperCase() : char.toLowerCase()
+  );
+  const entry = (address: string, earnings: string, reasons = '') => ({
+    address,
+    earnings,
+    reasons,
+  });
+
+  describe('validateBalanceMap', function () {
+    it('Should accept valid entries', async function () {
+      const third = utils.getAddress(utils.hexDataSlice(utils.id('third'), 12));
+
+      // Addresses without a checksum are accepted in either case
+      expect(
+        validateBalanceMap([
+          entry(first, '1', 'snapshot, futures'),
+          entry(second.toLowerCase(), '0x10'),
+          entry(`0x${third.slice(2).toUpperCase()}`, '2'),
+        ])
+      ).to.deep.equal([]);
+      expect(validateBalanceMap({ [first]: 1, [second]: '2' })).to.deep.equal(
+        []
+      );
+    });
+
+    it('Should report each issue with the entry index', async function () {
+      const balances = [
+        entry(first, '1'),
+        entry('0x1234', '1'),
+        entry(badChecksum, '1'),
+        entry(constants.AddressZero, '1'),
+        entry(first.toLowerCase(), '1'),
+        entry(second, 'ten'),
+        entry(second, '1.5'),
+        entry(second, '1e18'),
+        entry(second, '0'),
+        entry(second, '-1'),
+        entry(second, constants.MaxUint256.add(1).toString()),
+        entry(second, '1', 'snapshot, airdrop'),
+      ];
+
+      expect(
+        validateBalanceMap(balances).map(({ index, code }) => [index, code])
+      ).to.deep.equal([
+        [1, 'invalid-address'],
+        [2, 'checksum-mismatch'],
+        [2, 'duplicate-address'],
+        [3, 'zero-address'],
+        [4, 'duplicate-address'],
+        [5, 'invalid-amount'],
+        [6, 'duplicate-address'],
+        [6, 'decimal-amount'],
+        [7, 'duplicate-address'],
+        [7, 'scientific-notation-amount'],
+        [8, 'duplicate-address'],
+        [8, 'non-positive-amount'],
+        [9, 'duplicate-address'],
+        [9, 'non-positive-amount'],
+        [10, 'duplicate-address'],
+        [10, 'amount-overflow'],
+        [11, 'duplicate-address'],
+        [11, 'invalid-reason'],
+      ]);
+    });
+
+    it('Should describe each issue', async function () {
+      const issues = validateBalanceMap([
+        entry(badChecksum, '1.5'),
+        entry(first, '1', 'airdrop'),
+      ]);
+
+      expect(issues).to.deep.equal([
+        {
+          index: 0,
+          account: badChecksum,
+          code: 'checksum-mismatch',
+          message: `Checksum mismatch: ${badChecksum} (expected ${first})`,
+        },
+        {
+          index: 0,
+          account: badChecksum,
+          code: 'decimal-amount',
+          message: 'Decimal amount: 1.5',
+        },
+        {
+          index: 1,
+          account: first,
+          code: 'duplicate-address',
+          message: `Duplicate address: ${first} (first seen at entry 0)`,
+        },
+        {
+          index: 1,
+          account: first,
+          code: 'invalid-reason',
+          message: 'Invalid reason: "airdrop"',
+        },
+      ]);
+    });
+
+    it('Should index object entries by key order', async function () {
+      // Numbers this large stringify in scientific notation
+      const issues = validateBalanceMap({ [first]: '1', [second]: 1e21 });
+
+      expect(issues).to.deep.equal([
+        {
+          index: 1,
+          account: second,
+          code: 'scientific-notation-amount',
+          message: 'Scientific notation amount: 1e+21',
+        },
+      ]);
+    });
+
+    it('Should only accept reasons from the given schema', async function () {
+      const balances = [entry(first, '1', 'airdrop')];
+
+      expect(validateBalanceMap(balances, ['airdrop'])).to.deep.equal([]);
+      expect(
+        validateBalanceMap(balances).map(({ code }) => code)
+      ).to.deep.equal(['invalid-reason']);
+    });
+  });
+
+  describe('validateBalanceFile', function () {
+    let dir: string;
+
+    // Writes `content` to a file with the given extension and validates it
+    const validateFile = async (extension: string, content: string) => {
+      const path = join(dir, `balances${extension}`);
+
+      await fs.writeFile(path, content);
+
+      return (await validateBalanceFile(path)).map(({ index, line, code }) => [
+        index,
+        line,
+        code,
+      ]);
+    };
+
+    before(async function () {
+      dir = await fs.mkdtemp(join(tmpdir(), 'pirex-balances-'));
+    });
+
+    after(async function () {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('Should report the line of each issue in a JSON array', async function () {
+      // Each entry spans 5 lines, the first entry starting on line 2
+      const content = JSON.stringify(
+        [entry(first, '1'), entry('0x1234', '1'), entry(second, '1.5')],
+        null,
+        2
+      );
+
+      expect(await validateFile('.json', content)).to.deep.equal([
+        [1, 7, 'invalid-address'],
+        [2, 12, 'decimal-amount'],
+      ]);
+    });
+
+    it('Should report the line each key of a JSON object first appears on', async function () {
+      // JSON.parse keeps the last value of a repeated key, at its first position
+      const content = [
+        '{',
+        `  "${first}": "1",`,
+        '',
+        '  "0x1234": "1", "nested": { "0x5678": "1" },',
+        `  "${first}": "0"`,
+        '}',
+      ].join('\n');
+
+      expect(getJsonEntryLines(content)).to.deep.equal([2, 4, 4]);
+      expect(await validateFile('.json', content)).to.deep.equal([
+        [0, 2, 'non-positive-amount'],
+        [1, 4, 'invalid-address'],
+        [2, 4, 'invalid-address'],
+        [2, 4, 'invalid-amount'],
+      ]);
+    });
+
+    it('Should report the line of each issue in CSV and NDJSON files', async function () {
+      const csv = [
+        'address,earnings,reasons',
+        `${first},1,"snapshot, futures"`,
+        '',
+        `${second},0`,
+        `${first},1,airdrop`,
+      ].join('\n');
+      const ndjson = [
+        JSON.stringify({ address: first, earnings: '1', reasons: 'union' }),
+        JSON.stringify({ address: second, earnings: '1e18' }),
+      ].join('\n');
+
+      expect(await validateFile('.csv', csv)).to.deep.equal([
+        [1, 4, 'non-positive-amount'],
+        [2, 5, 'duplicate-address'],
+        [2, 5, 'invalid-reason'],
+      ]);
+      expect(await validateFile('.ndjson', ndjson)).to.deep.equal([
+        [1, 2, 'scientific-notation-amount'],
+      ]);
+    });
+
+    it('Should include the lines in the error message', async function () {
+      const error = new BalanceMapValidationError([
+        {
+          index: 1,
+          line: 7,
+          account: '0x1234',
+          code: 'invalid-address',
+          message: 'Invalid address: 0x1234',
+        },
+      ]);
+
+      expect(error.message).to.equal(
+        [
+          'Found 1 invalid balance entries',
+          '  line 7 (entry 1): Invalid address: 0x1234',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('parseBalanceMap', function () {
+    it('Should throw every issue at once when collecting issues', async function () {
+      const balances = [entry('0x1234', '1'), entry(second, '0')];
+      let error: BalanceMapValidationError | undefined;
+
+      try {
+        parseBalanceMap(balances, { collectIssues: true });
+      } catch (err) {
+        error = err as BalanceMapValidationError;
+      }
+
+      expect(error).to.be.instanceOf(BalanceMapValidationError);
+      expect(error?.issues).to.deep.equal(validateBalanceMap(balances));
+      expect(error?.message).to.equal(
+        [
+          'Found 2 invalid balance entries',
+          '  entry 0: Invalid address: 0x1234',
+          '  entry 1: Non-positive amount: 0',
+        ].join('\n')
+      );
+      expect(() => parseBalanceMap(balances)).to.throw(
+        'Found invalid address: 0x1234'
+      );
+    });
+  });
+});
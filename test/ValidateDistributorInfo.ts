@@ -0,0 +1,141 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import {
+  assertMerkleDistributorInfo,
+  distributorEncodings,
+  parseBalanceMap,
+  parseMultiBalanceMap,
+  validateMerkleDistributorInfo,
+  validateMultiMerkleDistributorInfo,
+} from '../lib/merkle';
+import { MerkleDistributorInfo } from '../lib/types';
+
+// Tests that distribution files are checked for structure, totals and proofs
+describe('ValidateDistributorInfo', function () {
+  const accounts = [...Array(5).keys()].map((n) =>
+    utils.getAddress(utils.hexDataSlice(utils.id(`claimant${n}`), 12))
+  );
+  const balances = accounts.reduce<{ [account: string]: string }>(
+    (memo, account, idx) => ({ ...memo, [account]: `${(idx + 1) * 1000}` }),
+    {}
+  );
+  // Round-trips through JSON, as the files are loaded
+  const getDistribution = (): MerkleDistributorInfo =>
+    JSON.parse(JSON.stringify(parseBalanceMap(balances)));
+
+  describe('validateMerkleDistributorInfo', function () {
+    it('Should accept a distribution built by parseBalanceMap', async function () {
+      const distribution = getDistribution();
+
+      expect(validateMerkleDistributorInfo(distribution)).to.deep.equal([]);
+      expect(() => assertMerkleDistributorInfo(distribution)).to.not.throw();
+    });
+
+    it('Should reject a tampered proof', async function () {
+      const distribution = getDistribution();
+      const [account] = Object.keys(distribution.claims);
+      const { proof } = distribution.claims[account];
+
+      proof[0] = utils.keccak256(proof[0]);
+
+      expect(validateMerkleDistributorInfo(distribution)).to.deep.equal([
+        {
+          path: `claims.${account}.proof`,
+          message: 'Proof does not verify against merkleRoot',
+        },
+      ]);
+      expect(() => assertMerkleDistributorInfo(distribution)).to.throw(
+        `claims.${account}.proof: Proof does not verify against merkleRoot`
+      );
+    });
+
+    it('Should reject a tampered amount', async function () {
+      const distribution = getDistribution();
+      const account = accounts[2];
+      const claim = distribution.claims[account];
+      const { tokenTotal } = distribution;
+
+      claim.amount = BigNumber.from(claim.amount).add(1).toString();
+
+      expect(validateMerkleDistributorInfo(distribution)).to.deep.equal([
+        {
+          path: 'tokenTotal',
+          message: `Claim amounts sum to ${BigNumber.from(tokenTotal).add(
+            1
+          )}, not ${tokenTotal}`,
+        },
+        {
+          path: `claims.${account}.proof`,
+          message: 'Proof does not verify against merkleRoot',
+        },
+      ]);
+    });
+
+    it('Should only accept proofs for the given encoding', async function () {
+      const issues = validateMerkleDistributorInfo(
+        getDistribution(),
+        distributorEncodings.openZeppelin
+      );
+
+      expect(issues.map(({ path }) => path)).to.deep.equal(
+        Object.keys(getDistribution().claims).map(
+          (account) => `claims.${account}.proof`
+        )
+      );
+    });
+
+    it('Should report structural issues', async function () {
+      const distribution = getDistribution();
+      const [account] = Object.keys(distribution.claims);
+      const claim = distribution.claims[account];
+      const lowercase = account.toLowerCase();
+
+      delete distribution.claims[account];
+      distribution.claims[lowercase] = { ...claim, index: 1, proof: ['0x12'] };
+
+      expect(validateMerkleDistributorInfo(distribution)).to.deep.equal([
+        {
+          path: `claims.${lowercase}`,
+          message: 'Expected a checksummed address',
+        },
+        {
+          path: `claims.${lowercase}.index`,
+          message: `Index 1 is also used by ${
+            Object.keys(distribution.claims)[0]
+          }`,
+        },
+        {
+          path: `claims.${lowercase}.proof[0]`,
+          message: 'Expected a 0x-prefixed bytes32 hex string',
+        },
+      ]);
+      expect(validateMerkleDistributorInfo([])).to.deep.equal([
+        { path: '', message: 'Expected an object' },
+      ]);
+    });
+  });
+
+  describe('validateMultiMerkleDistributorInfo', function () {
+    it('Should prefix issues with the token', async function () {
+      const [token] = accounts;
+      const distribution = JSON.parse(
+        JSON.stringify(parseMultiBalanceMap({ [token]: balances }))
+      );
+      const claims = distribution[token].claims;
+      const [account] = Object.keys(claims);
+
+      expect(validateMultiMerkleDistributorInfo(distribution)).to.deep.equal(
+        []
+      );
+
+      claims[account].proof[0] = utils.keccak256(claims[account].proof[0]);
+
+      expect(validateMultiMerkleDistributorInfo(distribution)).to.deep.equal([
+        {
+          path: `${token}.claims.${account}.proof`,
+          message: 'Proof does not verify against merkleRoot',
+        },
+      ]);
+    });
+  });
+});
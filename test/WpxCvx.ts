@@ -17,7 +17,7 @@ import {
   toBN,
   validateEvent,
 } from './helpers';
-import { BalanceTree } from '../lib/merkle';
+import { parseMultiBalanceMap, getVotiumClaimParams } from '../lib/merkle';
 
 // Tests WpxCvx functionalities tied to the Curve pool
 describe('WpxCvx', function () {
@@ -236,56 +236,24 @@ describe('WpxCvx', function () {
     before(async function () {
       await increaseBlockTimestamp(1209600);
 
-      const cvxRewardDistribution = [
-        {
-          account: pirexCvx.address,
-          amount: toBN(2e18),
-        },
-      ];
-      const crvRewardDistribution = [
-        {
-          account: pirexCvx.address,
-          amount: toBN(2e18),
-        },
-      ];
-      const cvxTree = new BalanceTree(cvxRewardDistribution);
-      const crvTree = new BalanceTree(crvRewardDistribution);
+      const votiumDistribution = parseMultiBalanceMap({
+        [cvx.address]: { [pirexCvx.address]: toBN(2e18).toString() },
+        [crv.address]: { [pirexCvx.address]: toBN(2e18).toString() },
+      });
 
       await cvx.transfer(votiumMultiMerkleStash.address, toBN(2e18));
       await crv.transfer(votiumMultiMerkleStash.address, toBN(2e18));
       await votiumMultiMerkleStash.updateMerkleRoot(
         cvx.address,
-        cvxTree.getHexRoot()
+        votiumDistribution[cvx.address].merkleRoot
       );
       await votiumMultiMerkleStash.updateMerkleRoot(
         crv.address,
-        crvTree.getHexRoot()
+        votiumDistribution[crv.address].merkleRoot
+      );
+      await pirexCvx.claimVotiumRewards(
+        getVotiumClaimParams(votiumDistribution, pirexCvx.address)
       );
-
-      const tokens = [cvx.address, crv.address];
-      const indexes = [0, 0];
-      const amounts = [
-        cvxRewardDistribution[0].amount,
-        crvRewardDistribution[0].amount,
-      ];
-      const proofs = [
-        cvxTree.getProof(
-          indexes[0],
-          pirexCvx.address,
-          cvxRewardDistribution[0].amount
-        ),
-        crvTree.getProof(
-          indexes[1],
-          pirexCvx.address,
-          crvRewardDistribution[0].amount
-        ),
-      ];
-      const votiumRewards: any[] = [
-        [tokens[0], indexes[0], amounts[0], proofs[0]],
-        [tokens[1], indexes[1], amounts[1], proofs[1]],
-      ];
-
-      await pirexCvx.claimVotiumRewards(votiumRewards);
     });
 
     it('Should redeem rewards', async function () {
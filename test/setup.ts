@@ -18,6 +18,7 @@ import {
   CurvePoolHelper,
   WpxCvx,
 } from '../typechain-types';
+import { EPOCH_DURATION, getFuturesIds } from '../lib/pirex';
 
 let admin: SignerWithAddress;
 let notAdmin: SignerWithAddress;
@@ -216,7 +217,7 @@ before(async function () {
   // Common constants
   this.feePercentDenominator = await pirexFees.PERCENT_DENOMINATOR();
   this.feeDenominator = await pirexCvx.FEE_DENOMINATOR();
-  this.epochDuration = toBN(1209600);
+  this.epochDuration = toBN(EPOCH_DURATION);
   this.delegationSpace = 'cvx.eth';
   this.delegationSpaceBytes32 = ethers.utils.formatBytes32String(
     this.delegationSpace
@@ -263,11 +264,8 @@ before(async function () {
     currentEpoch: BigNumber
   ) =>
     await Promise.reduce(
-      [...Array(rounds).keys()],
-      async (acc: BigNumber[], _: number, idx: number) => {
-        const epoch: BigNumber = currentEpoch
-          .add(this.epochDuration)
-          .add(this.epochDuration.mul(idx));
+      getFuturesIds(rounds, currentEpoch.toNumber()),
+      async (acc: BigNumber[], epoch: number) => {
         const futuresCvx: any = await ethers.getContractAt(
           'ERC1155PresetMinterSupply',
           futures === this.futuresEnum.vote